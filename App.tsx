@@ -10,6 +10,7 @@ import { ProjectConfig, LibraryAsset } from './types';
 import { LicenseRecord, loadLicenseFile, validateLicenseKey } from './license';
 import { loadPersistedState, hydratePersistedState, savePersistedState } from './storage';
 import { deleteMediaBlob } from './mediaStore';
+import { getQueueUpdate, watchRenderJob } from './renderEvents';
 
 const App: React.FC = () => {
   const [isLicensed, setIsLicensed] = useState<boolean>(false);
@@ -20,7 +21,7 @@ const App: React.FC = () => {
   const [licenses, setLicenses] = useState<LicenseRecord[] | null>(null);
   const [licenseLoadError, setLicenseLoadError] = useState<string | null>(null);
   const [appStateLoaded, setAppStateLoaded] = useState(false);
-  const activeJobPolls = useRef(new Map<string, { cancelled: boolean }>());
+  const activeJobPolls = useRef(new Map<string, () => void>());
 
   useEffect(() => {
     let cancelled = false;
@@ -129,82 +130,15 @@ const App: React.FC = () => {
     if (activeJobPolls.current.has(jobId)) {
       return;
     }
-    const controller = { cancelled: false };
-    activeJobPolls.current.set(jobId, controller);
-
-    const poll = async () => {
-      try {
-        while (!controller.cancelled) {
-          const response = await fetch(`/api/render/${jobId}`);
-          if (!response.ok) {
-            if (response.status === 404) {
-              updateQueueItem(itemId, {
-                status: 'FAILED',
-                progress: 0,
-                errorMessage: 'Render job missing. The server may have restarted.',
-              });
-              return;
-            }
-            throw new Error('Unable to fetch render status.');
-          }
-
-          const data = await response.json();
-          const status = data.status as string;
-          const progress = typeof data.progress === 'number' ? data.progress : 0;
-
-          if (status === 'queued' || status === 'rendering' || status === 'cancelling' || status === 'normalizing') {
-            updateQueueItem(itemId, {
-              status: 'RENDERING',
-              progress,
-              outputUrl: undefined,
-              errorMessage: undefined,
-            });
-          }
-
-          if (status === 'completed') {
-            updateQueueItem(itemId, {
-              status: 'COMPLETED',
-              progress: 100,
-              outputUrl: data.outputUrl || undefined,
-              errorMessage: undefined,
-            });
-            return;
-          }
-
-          if (status === 'failed') {
-            updateQueueItem(itemId, {
-              status: 'FAILED',
-              progress,
-              errorMessage: data.error || 'Render failed.',
-            });
-            return;
-          }
-
-          if (status === 'cancelled') {
-            updateQueueItem(itemId, {
-              status: 'CANCELLED',
-              progress,
-              errorMessage: data.error || 'Render cancelled by user.',
-            });
-            return;
-          }
-
-          await new Promise((resolve) => setTimeout(resolve, 1500));
-        }
-      } catch (error) {
-        if (!controller.cancelled) {
-          updateQueueItem(itemId, {
-            status: 'FAILED',
-            progress: 0,
-            errorMessage: error instanceof Error ? error.message : 'Render status check failed.',
-          });
-        }
-      } finally {
+    const stop = watchRenderJob(jobId, (job) => {
+      const { updates, done } = getQueueUpdate(job);
+      updateQueueItem(itemId, updates);
+      if (done) {
+        stop();
         activeJobPolls.current.delete(jobId);
       }
-    };
-
-    poll();
+    });
+    activeJobPolls.current.set(jobId, stop);
   };
 
   useEffect(() => {
@@ -221,9 +155,7 @@ const App: React.FC = () => {
 
   useEffect(() => {
     return () => {
-      activeJobPolls.current.forEach((controller) => {
-        controller.cancelled = true;
-      });
+      activeJobPolls.current.forEach((stop) => stop());
       activeJobPolls.current.clear();
     };
   }, []);
@@ -244,10 +176,21 @@ const App: React.FC = () => {
     setQueue(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
   };
 
-  const clearQueue = () => {
-    activeJobPolls.current.forEach((controller) => {
-      controller.cancelled = true;
+  const moveQueueItem = (id: string, toIndex: number) => {
+    setQueue((prev) => {
+      const fromIndex = prev.findIndex((item) => item.id === id);
+      if (fromIndex < 0 || fromIndex === toIndex) {
+        return prev;
+      }
+      const next = [...prev];
+      const [moved] = next.splice(fromIndex, 1);
+      next.splice(Math.min(toIndex, next.length), 0, moved);
+      return next;
     });
+  };
+
+  const clearQueue = () => {
+    activeJobPolls.current.forEach((stop) => stop());
     activeJobPolls.current.clear();
     setQueue([]);
   };
@@ -263,6 +206,7 @@ const App: React.FC = () => {
         status: 'PENDING',
         progress: 0,
         outputUrl: undefined,
+        renderOutputs: undefined,
         errorMessage: undefined,
         jobId: undefined,
       }))
@@ -271,9 +215,11 @@ const App: React.FC = () => {
 
   const removeFromLibrary = (id: string) => {
     const assetName = library.find((asset) => asset.id === id)?.name || 'this asset';
-    const referenced = queue.filter(
-      (item) => item.bgm?.id === id || item.video1?.id === id || item.video2?.id === id
-    );
+    const usesAsset = (item: ProjectConfig) =>
+      item.audioCues.some((cue) => cue.id === id) ||
+      item.overlay?.id === id ||
+      item.clips.some((clip) => clip.id === id);
+    const referenced = queue.filter(usesAsset);
 
     if (referenced.length > 0) {
       const preview = referenced
@@ -298,18 +244,18 @@ const App: React.FC = () => {
 
       setQueue((prev) =>
         prev.map((item) => {
-          const usesAsset = item.bgm?.id === id || item.video1?.id === id || item.video2?.id === id;
-          if (!usesAsset) {
+          if (!usesAsset(item)) {
             return item;
           }
           return {
             ...item,
-            bgm: item.bgm?.id === id ? null : item.bgm,
-            video1: item.video1?.id === id ? null : item.video1,
-            video2: item.video2?.id === id ? null : item.video2,
+            audioCues: item.audioCues.filter((cue) => cue.id !== id),
+            overlay: item.overlay?.id === id ? null : item.overlay,
+            clips: item.clips.filter((clip) => clip.id !== id),
             status: 'PENDING',
             progress: 0,
             outputUrl: undefined,
+            renderOutputs: undefined,
             jobId: undefined,
             errorMessage: `Removed "${assetName}" from library. Please re-select media.`,
           };
@@ -356,6 +302,7 @@ const App: React.FC = () => {
           <BatchQueue 
             items={queue} 
             onUpdateItem={updateQueueItem} 
+            onMoveItem={moveQueueItem}
             onClear={clearQueue}
           />
         )}
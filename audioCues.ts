@@ -0,0 +1,42 @@
+import { AudioCue } from './types';
+import { ClipTimeline } from './timeline';
+import { DEFAULT_DUCKING } from './ducking';
+
+export const MAX_AUDIO_CUES = 8;
+
+// Projects saved before audio cues had a single `bgm` whose mode picked the clip it played under.
+export const LEGACY_BGM_ANCHORS: Record<string, number | null> = {
+  FULL: null,
+  VIDEO1_ONLY: 0,
+  VIDEO2_ONLY: 1,
+};
+
+export const createAudioCue = (
+  asset: { id: string; name: string; url: string; duration: number },
+  anchorClip: number | null = null
+): AudioCue => ({
+  cueId: Math.random().toString(36).substr(2, 9),
+  id: asset.id,
+  name: asset.name,
+  url: asset.url,
+  duration: asset.duration,
+  anchorClip,
+  startTime: 0,
+  playLength: 30,
+  volumeDb: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  loop: false,
+  ducking: { ...DEFAULT_DUCKING },
+});
+
+export const formatCueAnchor = (anchorClip: number | null) => (anchorClip === null ? 'All' : `Clip ${anchorClip + 1}`);
+
+// The frames a cue may play in. A cue anchored to a clip the item does not have stays silent.
+export const getCueWindow = (anchorClip: number | null, timeline: ClipTimeline) =>
+  anchorClip === null
+    ? { start: 0, frames: timeline.totalFrames }
+    : { start: timeline.starts[anchorClip] ?? 0, frames: timeline.frames[anchorClip] ?? 0 };
+
+// A cue longer than its track always loops.
+export const isCueLooping = (cue: AudioCue) => cue.loop || (cue.duration > 0 && cue.playLength > cue.duration);
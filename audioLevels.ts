@@ -1,5 +1,6 @@
 export const MIN_DB = -40;
 export const MAX_DB = 40;
+export const MAX_FADE_SECONDS = 10;
 
 export const clampDb = (value: number): number => Math.min(MAX_DB, Math.max(MIN_DB, value));
 
@@ -0,0 +1,63 @@
+import { VideoAsset } from './types';
+
+export type BatchStrategy = 'zip' | 'cross' | 'one-intro' | 'one-body';
+
+export const BATCH_STRATEGIES: { value: BatchStrategy; label: string; description: string }[] = [
+  { value: 'zip', label: 'Zip', description: 'Pair clips by order: 1st with 1st, 2nd with 2nd.' },
+  { value: 'cross', label: 'Every × Every', description: 'Every combination of the clips in each slot.' },
+  { value: 'one-intro', label: 'One Intro', description: 'The first Clip 1 in front of every Clip 2.' },
+  { value: 'one-body', label: 'One Body', description: 'Every Clip 1 in front of the first Clip 2.' },
+];
+
+export interface BatchCombo {
+  key: string;
+  slots: (VideoAsset | null)[];
+  clips: VideoAsset[];
+}
+
+const toCombo = (slots: (VideoAsset | null)[]): BatchCombo => ({
+  key: slots.map((asset) => asset?.id ?? '-').join('|'),
+  slots,
+  clips: slots.filter(Boolean) as VideoAsset[],
+});
+
+// Every slot follows the same index unless it is pinned to its first clip.
+const zipFrom = (slots: VideoAsset[][], pinned: number | null, count: number) =>
+  Array.from({ length: count }, (_, index) =>
+    toCombo(slots.map((assets, slot) => (slot === pinned ? assets[0] : assets[index]) ?? null))
+  );
+
+const crossProduct = (slots: VideoAsset[][]) =>
+  slots
+    .reduce<(VideoAsset | null)[][]>(
+      (combos, assets) =>
+        assets.length === 0
+          ? combos.map((combo) => [...combo, null])
+          : combos.flatMap((combo) => assets.map((asset) => [...combo, asset])),
+      [[]]
+    )
+    .map(toCombo);
+
+export const buildBatchCombos = (slots: VideoAsset[][], strategy: BatchStrategy): BatchCombo[] => {
+  const intros = slots[0] ?? [];
+  const bodies = slots[1] ?? [];
+  if (intros.length === 0) {
+    return [];
+  }
+
+  switch (strategy) {
+    case 'cross':
+      return crossProduct(slots);
+    case 'one-intro':
+      return bodies.length > 0 ? zipFrom(slots, 0, bodies.length) : zipFrom(slots, 0, 1);
+    case 'one-body':
+      return zipFrom(slots, 1, intros.length);
+    default:
+      return zipFrom(slots, null, intros.length);
+  }
+};
+
+export const countUnusedClips = (slots: VideoAsset[][], combos: BatchCombo[]) => {
+  const used = new Set(combos.flatMap((combo) => combo.clips.map((clip) => clip.id)));
+  return slots.reduce((sum, assets) => sum + assets.filter((asset) => !used.has(asset.id)).length, 0);
+};
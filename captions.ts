@@ -0,0 +1,23 @@
+import { CaptionStyle } from './types';
+
+export const CAPTION_FONTS = ['Inter', 'Arial', 'Georgia', 'Impact', 'Courier New'] as const;
+
+export const MIN_CAPTION_FONT_SIZE = 24;
+export const MAX_CAPTION_FONT_SIZE = 96;
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontFamily: 'Inter',
+  fontSize: 48,
+  position: 'bottom',
+  textColor: '#ffffff',
+  background: true,
+  backgroundOpacity: 0.6,
+};
+
+export const CAPTION_FILE_ACCEPT = '.srt,.vtt,.txt,text/vtt,application/x-subrip,text/plain';
+
+export const isCaptionFile = (file: File) => /\.(srt|vtt|txt)$/i.test(file.name);
+
+// Font size is authored against a 1080px short edge and scaled to the output frame.
+export const getCaptionFontSize = (style: CaptionStyle, width: number, height: number) =>
+  Math.round((style.fontSize * Math.min(width, height)) / 1080);
@@ -0,0 +1,86 @@
+import { hashBlob } from './mediaStore';
+
+export interface UploadResult {
+  path: string;
+  sha256: string;
+  deduplicated?: boolean;
+}
+
+interface UploadSession {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+}
+
+interface ChunkedUploadOptions {
+  assetId: string;
+  name: string;
+  sha256?: string | null;
+  onProgress?: (fraction: number) => void;
+}
+
+const CHUNK_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => null);
+  return (data?.error as string | undefined) || fallback;
+};
+
+const sendChunk = async (uploadId: string, index: number, chunk: Blob) => {
+  const sha256 = await hashBlob(chunk);
+  let lastError: Error | null = null;
+  for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt += 1) {
+    try {
+      const response = await fetch(`/api/uploads/${uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream', ...(sha256 ? { 'X-Chunk-Sha256': sha256 } : {}) },
+        body: chunk,
+      });
+      if (response.ok) {
+        return;
+      }
+      lastError = new Error(await readError(response, `Chunk ${index + 1} was rejected.`));
+      if (response.status === 404) {
+        break;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(`Chunk ${index + 1} failed to upload.`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+  }
+  throw lastError ?? new Error(`Chunk ${index + 1} failed to upload.`);
+};
+
+// The server keys open sessions by asset, name and size, so a failed or reloaded upload
+// resumes from the chunks it already has instead of starting over.
+export const uploadInChunks = async (blob: Blob, options: ChunkedUploadOptions): Promise<UploadResult> => {
+  const created = await fetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ assetId: options.assetId, name: options.name, size: blob.size, sha256: options.sha256 }),
+  });
+  if (!created.ok) {
+    throw new Error(await readError(created, 'Unable to start upload.'));
+  }
+  const session = (await created.json()) as UploadSession;
+  const received = new Set(session.receivedChunks);
+  const report = () => options.onProgress?.(session.totalChunks === 0 ? 1 : received.size / session.totalChunks);
+  report();
+
+  for (let index = 0; index < session.totalChunks; index += 1) {
+    if (received.has(index)) {
+      continue;
+    }
+    await sendChunk(session.uploadId, index, blob.slice(index * session.chunkSize, (index + 1) * session.chunkSize));
+    received.add(index);
+    report();
+  }
+
+  const completed = await fetch(`/api/uploads/${session.uploadId}/complete`, { method: 'POST' });
+  if (!completed.ok) {
+    throw new Error(await readError(completed, 'Unable to finish upload.'));
+  }
+  return (await completed.json()) as UploadResult;
+};
@@ -4,6 +4,7 @@ import { ICONS } from '../constants';
 import { LibraryAsset } from '../types';
 import { saveMediaBlob } from '../mediaStore';
 import { getMediaDuration } from '../mediaDuration';
+import { OVERLAY_IMAGE_ACCEPT, isOverlayImageFile } from '../overlay';
 
 interface AssetLibraryProps {
   library: LibraryAsset[];
@@ -15,12 +16,16 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
   const [isDragOver, setIsDragOver] = React.useState(false);
   const [dropError, setDropError] = React.useState<string | null>(null);
 
-  const importAudioFile = async (file: File) => {
+  const importFile = async (file: File) => {
     const assetId = Math.random().toString(36).substr(2, 9);
     const url = URL.createObjectURL(file);
     saveMediaBlob(assetId, file).catch((error) => {
       console.warn('[media] Failed to persist asset.', error);
     });
+    if (isOverlayImageFile(file)) {
+      onAdd({ id: assetId, name: file.name, url, duration: 0, addedAt: Date.now(), kind: 'image' });
+      return;
+    }
     const duration = await getMediaDuration(file);
     const safeDuration = duration > 0 ? duration : 180;
     onAdd({
@@ -28,7 +33,8 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
       name: file.name,
       url,
       duration: safeDuration,
-      addedAt: Date.now()
+      addedAt: Date.now(),
+      kind: 'audio'
     });
   };
 
@@ -36,7 +42,7 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
     const file = e.target.files?.[0];
     if (!file) return;
     setDropError(null);
-    await importAudioFile(file);
+    await importFile(file);
   };
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -66,26 +72,26 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
     e.stopPropagation();
     setIsDragOver(false);
 
-    const files = Array.from(e.dataTransfer.files || []);
+    const files = Array.from<File>(e.dataTransfer.files || []);
     if (files.length === 0) {
       return;
     }
 
-    const audioFiles = files.filter((file) => file.type.startsWith('audio/'));
-    if (audioFiles.length === 0) {
-      setDropError('Only audio files can be added to the library.');
+    const acceptedFiles = files.filter((file) => file.type.startsWith('audio/') || isOverlayImageFile(file));
+    if (acceptedFiles.length === 0) {
+      setDropError('Only audio files and PNG / SVG images can be added to the library.');
       return;
     }
 
-    const rejected = files.length - audioFiles.length;
+    const rejected = files.length - acceptedFiles.length;
     if (rejected > 0) {
-      setDropError('Some files were skipped (only audio files can be added to the library).');
+      setDropError('Some files were skipped (only audio files and PNG / SVG images can be added to the library).');
     } else {
       setDropError(null);
     }
 
-    for (const file of audioFiles) {
-      await importAudioFile(file);
+    for (const file of acceptedFiles) {
+      await importFile(file);
     }
   };
 
@@ -106,7 +112,7 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
         <div className="space-y-1">
           <h1 className="text-3xl font-black text-slate-900 tracking-tight">Asset Library</h1>
           <p className="text-sm text-slate-500">
-            Store your preferred BGM tracks locally for quick access across different compositions.
+            Store your preferred music tracks and logo overlays locally for quick access across different compositions.
           </p>
           {dropError && (
             <p className="mt-3 text-[10px] font-bold text-red-500 bg-red-50 border border-red-100 rounded-2xl px-4 py-3 inline-block">
@@ -116,15 +122,15 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
         </div>
         
         <label className="flex items-center gap-3 px-8 py-4 rounded-2xl font-black shadow-xl transition-all active:scale-95 bg-blue-600 text-white hover:bg-blue-700 shadow-blue-100 cursor-pointer border-b-4 border-blue-800">
-          <input type="file" accept="audio/*" onChange={handleAdd} className="hidden" />
-          <ICONS.Music className="w-5 h-5" /> Import Audio Track
+          <input type="file" accept={`audio/*,${OVERLAY_IMAGE_ACCEPT}`} onChange={handleAdd} className="hidden" />
+          <ICONS.Music className="w-5 h-5" /> Import Audio / Logo
         </label>
       </header>
 
       {isDragOver && (
         <div className="mb-8 p-6 bg-blue-50 rounded-[2rem] border-2 border-dashed border-blue-200 text-center">
-          <p className="text-xs font-black text-blue-700 uppercase tracking-widest">Drop audio files to add to library</p>
-          <p className="text-[10px] font-bold text-blue-600 mt-1">Tip: drag a track onto the Workstation BGM box to use it.</p>
+          <p className="text-xs font-black text-blue-700 uppercase tracking-widest">Drop audio files or PNG / SVG logos to add to library</p>
+          <p className="text-[10px] font-bold text-blue-600 mt-1">Tip: drag a track onto the Workstation Audio box to add a cue, or a logo onto the Overlay box.</p>
         </div>
       )}
 
@@ -134,7 +140,7 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
               <ICONS.Music className="w-10 h-10" />
            </div>
            <h2 className="text-xl font-bold text-slate-900 mb-2">No Assets Saved</h2>
-           <p className="text-slate-400 text-sm max-w-xs mx-auto">Upload audio files to your library so you can reuse them in any project without re-uploading.</p>
+           <p className="text-slate-400 text-sm max-w-xs mx-auto">Upload audio files or logos to your library so you can reuse them in any project without re-uploading.</p>
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -144,12 +150,18 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
               draggable
               onDragStart={onDragStartAsset(asset)}
               className="group bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm hover:shadow-xl transition-all hover:border-blue-100 cursor-grab active:cursor-grabbing"
-              title="Drag to Workstation BGM"
+              title={asset.kind === 'image' ? 'Drag to Workstation Overlay' : 'Drag to Workstation Audio'}
             >
                <div className="flex items-center gap-4 mb-6">
-                  <div className="w-12 h-12 bg-blue-50 text-blue-600 rounded-2xl flex items-center justify-center border border-blue-100 shadow-sm group-hover:bg-blue-600 group-hover:text-white transition-all">
-                     <ICONS.Music className="w-6 h-6" />
-                  </div>
+                  {asset.kind === 'image' && asset.url ? (
+                    <div className="w-12 h-12 rounded-2xl border border-slate-100 shadow-sm bg-[repeating-conic-gradient(#f1f5f9_0%_25%,#fff_0%_50%)] bg-[length:12px_12px] flex items-center justify-center overflow-hidden">
+                      <img src={asset.url} alt="" className="max-w-full max-h-full object-contain" />
+                    </div>
+                  ) : (
+                    <div className="w-12 h-12 bg-blue-50 text-blue-600 rounded-2xl flex items-center justify-center border border-blue-100 shadow-sm group-hover:bg-blue-600 group-hover:text-white transition-all">
+                       {asset.kind === 'image' ? <ICONS.Image className="w-6 h-6" /> : <ICONS.Music className="w-6 h-6" />}
+                    </div>
+                  )}
                   <div className="flex-1 overflow-hidden">
                      <h3 className="font-bold text-slate-800 truncate">{asset.name}</h3>
                      <p className="text-[10px] font-black text-slate-400 uppercase">Added {new Date(asset.addedAt).toLocaleDateString()}</p>
@@ -157,7 +169,7 @@ export const AssetLibrary: React.FC<AssetLibraryProps> = ({ library, onAdd, onRe
                </div>
                
                <div className="flex items-center justify-between pt-4 border-t border-slate-50">
-                  <span className="text-[10px] font-black text-blue-600 bg-blue-50 px-2 py-1 rounded tracking-widest uppercase">AUDIO/MPEG</span>
+                  <span className="text-[10px] font-black text-blue-600 bg-blue-50 px-2 py-1 rounded tracking-widest uppercase">{asset.kind === 'image' ? 'IMAGE' : 'AUDIO/MPEG'}</span>
                   <button 
                     onClick={() => onRemove(asset.id)}
                     className="text-[10px] font-black text-red-400 hover:text-red-600 uppercase tracking-widest"
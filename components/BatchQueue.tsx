@@ -1,18 +1,49 @@
 
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ICONS } from '../constants';
-import { ProjectConfig } from '../types';
-import { loadMediaBlob } from '../mediaStore';
+import { FailureClass, ProjectConfig, RenderOutput } from '../types';
+import { hashBlob, loadMediaBlob } from '../mediaStore';
+import { uploadInChunks } from '../chunkedUpload';
+import { formatLoudness, formatOutputProfile } from '../outputProfiles';
+import { isCueLooping } from '../audioCues';
+
+// Tells operators whether a failed item needs new media or just another try.
+const FAILURE_CLASS_INFO: Record<FailureClass, { label: string; hint: string }> = {
+  'missing-input': { label: 'Missing Input', hint: 'Re-import the media and queue the item again.' },
+  decode: { label: 'Decode Error', hint: 'The source file is damaged or unsupported. Re-export it.' },
+  timeout: { label: 'Timeout', hint: 'Retried automatically. Run the batch again once the machine is less busy.' },
+  disk: { label: 'Out of Disk', hint: 'Free up disk space (Engine Config → Delete Cache), then retry.' },
+  cancelled: { label: 'Cancelled', hint: 'Stopped by a user.' },
+  unknown: { label: 'Render Error', hint: 'Check the render server log for details.' },
+};
+
+interface ServerBatch {
+  batchId: string;
+  name: string;
+  createdAt: string;
+  total: number;
+  counts: { queued: number; active: number; completed: number; failed: number; cancelled: number };
+  done: boolean;
+}
 
 interface BatchQueueProps {
   items: ProjectConfig[];
   onUpdateItem: (id: string, updates: Partial<ProjectConfig>) => void;
+  onMoveItem: (id: string, toIndex: number) => void;
   onClear: () => void;
 }
 
-export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onClear }) => {
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onMoveItem, onClear }) => {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [serverBatches, setServerBatches] = useState<ServerBatch[]>([]);
+  const [queuePaused, setQueuePaused] = useState(false);
+  // Item id → asset label → fraction uploaded, shown apart from the render progress.
+  const [uploadProgress, setUploadProgress] = useState<Record<string, Record<string, number>>>({});
+  const [renderWindow, setRenderWindow] = useState<{ open: boolean; nextOpen: string | null } | null>(null);
   const batchController = useRef<{ cancelled: boolean }>({ cancelled: false });
+  const contentHashes = useRef(new Map<string, string | null>());
   const activeItem = items.find((item) => item.status === 'RENDERING') || null;
   const isActivelyRendering = isProcessing || Boolean(activeItem);
 
@@ -31,10 +62,38 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
     }
   };
 
-  const uploadAsset = async (asset: { id: string; name: string; url?: string } | null, label: string) => {
+  const findUploadedPath = async (sha256: string, assetId: string): Promise<string | null> => {
+    try {
+      const response = await fetch('/api/upload/check', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sha256, assetId }),
+      });
+      const data = response.ok ? await response.json() : null;
+      return data?.exists ? (data.path as string) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Media shared by many items (a BGM, an intro) is hashed once and only sent if the server lacks it.
+  const uploadAsset = async (
+    asset: { id: string; name: string; url?: string } | null,
+    label: string,
+    onProgress: (fraction: number) => void
+  ) => {
     if (!asset) {
       return null;
     }
+    const knownHash = contentHashes.current.get(asset.id);
+    if (knownHash) {
+      const existingPath = await findUploadedPath(knownHash, asset.id);
+      if (existingPath) {
+        onProgress(1);
+        return existingPath;
+      }
+    }
+
     let blob = await loadMediaBlob(asset.id);
     if (!blob && asset.url) {
       blob = await blobFromUrl(asset.url);
@@ -43,123 +102,155 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
       throw new Error(`${label} file not found on this device. Please re-import the asset.`);
     }
 
-    const formData = new FormData();
-    formData.append('assetId', asset.id);
-    formData.append('file', blob, asset.name || `${asset.id}.bin`);
-
-    const response = await fetch('/api/upload', {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      throw new Error(`${label} upload failed.`);
+    let sha256 = knownHash;
+    if (sha256 === undefined) {
+      sha256 = await hashBlob(blob);
+      contentHashes.current.set(asset.id, sha256);
+      const existingPath = sha256 ? await findUploadedPath(sha256, asset.id) : null;
+      if (existingPath) {
+        onProgress(1);
+        return existingPath;
+      }
     }
 
-    const data = await response.json();
-    return data.path as string;
+    try {
+      const result = await uploadInChunks(blob, {
+        assetId: asset.id,
+        name: asset.name || `${asset.id}.bin`,
+        sha256,
+        onProgress,
+      });
+      // Files too large to hash here still skip later uploads once the server has hashed them.
+      contentHashes.current.set(asset.id, result.sha256);
+      return result.path;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error.';
+      throw new Error(`${label} upload failed: ${reason} Processing the queue again resumes the upload.`);
+    }
   };
 
-  const pollJob = async (jobId: string, itemId: string) => {
-    while (true) {
-      if (batchController.current.cancelled) {
-        return;
-      }
-      const response = await fetch(`/api/render/${jobId}`);
-      if (!response.ok) {
-        if (response.status === 404) {
-          onUpdateItem(itemId, {
-            status: 'FAILED',
-            progress: 0,
-            errorMessage: 'Render job missing. The server may have restarted.',
-          });
-          return;
-        }
-        throw new Error('Unable to fetch render status.');
-      }
-      const data = await response.json();
-      const status = data.status as string;
-      const progress = typeof data.progress === 'number' ? data.progress : 0;
-
-      if (status === 'rendering' || status === 'queued' || status === 'cancelling' || status === 'normalizing') {
-        onUpdateItem(itemId, { status: 'RENDERING', progress });
-      }
-
-      if (status === 'completed') {
-        onUpdateItem(itemId, {
-          status: 'COMPLETED',
-          progress: 100,
-          outputUrl: data.outputUrl || undefined,
-          errorMessage: undefined,
-        });
-        return;
-      }
+  const buildRenderRequest = async (item: ProjectConfig) => {
+    if (item.clips.length === 0) {
+      throw new Error('Clip 1 is required to render.');
+    }
 
-      if (status === 'failed') {
-        onUpdateItem(itemId, {
-          status: 'FAILED',
-          progress,
-          errorMessage: data.error || 'Render failed.',
+    const trackUpload = (label: string) => (fraction: number) =>
+      setUploadProgress((prev) => ({ ...prev, [item.id]: { ...prev[item.id], [label]: fraction } }));
+    const upload = (asset: { id: string; name: string; url?: string } | null, label: string) =>
+      uploadAsset(asset, label, trackUpload(label));
+
+    const clips: { path: string; duration: number; captionsPath: string | null; volumeDb: number; muted: boolean }[] = [];
+    for (const [index, clip] of item.clips.entries()) {
+      const clipPath = await upload(clip, `Clip ${index + 1}`);
+      const captionsPath = await upload(clip.captions ?? null, `Clip ${index + 1} captions`);
+      if (clipPath) {
+        clips.push({
+          path: clipPath,
+          duration: clip.duration || 0,
+          captionsPath,
+          volumeDb: clip.volumeDb ?? 0,
+          muted: clip.muted ?? false,
         });
-        return;
       }
-
-      if (status === 'cancelled') {
-        onUpdateItem(itemId, {
-          status: 'CANCELLED',
-          progress,
-          errorMessage: data.error || 'Render cancelled by user.',
+    }
+    // Cues sharing a track upload it once; the hash check answers for the repeats.
+    const audioCues = [];
+    for (const [index, cue] of item.audioCues.entries()) {
+      const cuePath = await upload(cue, `Audio ${index + 1}`);
+      if (cuePath) {
+        audioCues.push({
+          path: cuePath,
+          duration: cue.duration,
+          anchorClip: cue.anchorClip,
+          startTime: cue.startTime || 0,
+          playLength: cue.playLength,
+          volumeDb: cue.volumeDb,
+          fadeIn: cue.fadeIn,
+          fadeOut: cue.fadeOut,
+          loop: isCueLooping(cue),
+          ducking: cue.ducking,
         });
-        return;
       }
-
-      await new Promise((resolve) => setTimeout(resolve, 1000));
     }
+    const overlayPath = await upload(item.overlay, 'Overlay');
+
+    return {
+      itemId: item.id,
+      name: item.name,
+      outputs: item.outputs,
+      frameFit: item.frameFit,
+      clips,
+      transition: item.transition,
+      captionStyle: item.captionStyle,
+      overlay: item.overlay
+        ? {
+          path: overlayPath,
+          corner: item.overlay.corner,
+          margin: item.overlay.margin,
+          scale: item.overlay.scale,
+          opacity: item.overlay.opacity,
+          startTime: item.overlay.startTime,
+          endTime: item.overlay.endTime,
+        }
+        : null,
+      textLayers: item.textLayers,
+      textFields: item.textFields,
+      priority: item.priority ?? 0,
+      audioCues,
+    };
   };
 
-  const renderQueueItem = async (item: ProjectConfig) => {
-    onUpdateItem(item.id, { status: 'RENDERING', progress: 0, errorMessage: undefined, outputUrl: undefined });
+  const isOnServer = (item: ProjectConfig) => item.status === 'RENDERING' && Boolean(item.jobId);
 
-    const video1Path = await uploadAsset(item.video1, 'Video 1');
-    const video2Path = await uploadAsset(item.video2, 'Video 2');
-    const bgmPath = await uploadAsset(item.bgm, 'BGM');
-
-    if (!video1Path) {
-      throw new Error('Video 1 is required to render.');
+  // Items already submitted keep the same relative order on the server as in this list.
+  const syncServerOrder = async (ordered: ProjectConfig[]) => {
+    const jobIds = ordered.filter(isOnServer).map((item) => item.jobId);
+    if (jobIds.length < 2) {
+      return;
     }
-
-    const bgm = item.bgm
-      ? {
-        path: bgmPath,
-        duration: item.bgm.duration,
-        playLength: item.bgm.playLength,
-        volumeDb: item.bgm.volumeDb,
-        mode: item.bgm.mode,
-        startTime: item.bgm.startTime || 0,
-        loop: item.bgm.loop || (item.bgm.duration > 0 && item.bgm.playLength > item.bgm.duration),
-      }
-      : null;
-
-    const response = await fetch('/api/render', {
+    await fetch('/api/queue/reorder', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        name: item.name,
-        exportQuality: item.exportQuality,
-        video1: { path: video1Path, duration: item.video1?.duration || 0 },
-        video2: video2Path ? { path: video2Path, duration: item.video2?.duration || 0 } : null,
-        bgm,
-      }),
-    });
+      body: JSON.stringify({ jobIds }),
+    }).catch(() => null);
+  };
 
-    if (!response.ok) {
-      throw new Error('Render job could not be created.');
+  const dropItem = (toIndex: number) => {
+    const id = draggingId;
+    setDraggingId(null);
+    setDropIndex(null);
+    const fromIndex = items.findIndex((item) => item.id === id);
+    if (!id || fromIndex < 0 || fromIndex === toIndex) {
+      return;
     }
+    const reordered = [...items];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, moved);
+    onMoveItem(id, toIndex);
+    // The list position now decides when it renders, so drop any earlier "render next" boost.
+    if (moved.priority) {
+      onUpdateItem(id, { priority: undefined });
+    }
+    syncServerOrder(reordered);
+  };
 
-    const data = await response.json();
-    const jobId = data.jobId as string;
-    onUpdateItem(item.id, { jobId, status: 'RENDERING', progress: 0 });
-    await pollJob(jobId, item.id);
+  const renderNext = async (item: ProjectConfig) => {
+    if (isOnServer(item)) {
+      const response = await fetch(`/api/render/${item.jobId}/priority`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ next: true }),
+      }).catch(() => null);
+      if (!response?.ok) {
+        const payload = await response?.json().catch(() => null);
+        alert(payload?.error || 'Unable to move this render up.');
+        return;
+      }
+    } else {
+      onUpdateItem(item.id, { priority: Math.max(0, ...items.map((other) => other.priority ?? 0)) + 1 });
+    }
+    const firstOpenIndex = items.findIndex((other) => other.status !== 'COMPLETED');
+    onMoveItem(item.id, Math.max(0, firstOpenIndex));
   };
 
   const cancelRender = async (item: ProjectConfig) => {
@@ -228,28 +319,159 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
     batchController.current.cancelled = false;
   };
 
+  const loadServerBatches = async () => {
+    try {
+      const response = await fetch('/api/batches');
+      if (response.ok) {
+        const data = await response.json();
+        setServerBatches(Array.isArray(data.batches) ? data.batches : []);
+      }
+    } catch {
+      setServerBatches([]);
+    }
+  };
+
+  const loadQueueState = async () => {
+    try {
+      const response = await fetch('/api/queue');
+      if (response.ok) {
+        const data = await response.json();
+        setQueuePaused(Boolean(data.paused));
+        setRenderWindow(data.schedule ?? null);
+      }
+    } catch {
+      setQueuePaused(false);
+      setRenderWindow(null);
+    }
+  };
+
+  const statusKey = items.map((item) => item.status).join(',');
+  useEffect(() => {
+    loadServerBatches();
+    loadQueueState();
+  }, [statusKey]);
+
+  // Jobs that already started keep rendering; the server just stops starting new ones.
+  const toggleQueuePause = async () => {
+    const response = await fetch(`/api/queue/${queuePaused ? 'resume' : 'pause'}`, { method: 'POST' }).catch(() => null);
+    const data = response?.ok ? await response.json().catch(() => null) : null;
+    if (!data) {
+      alert('Unable to reach the render server.');
+      return;
+    }
+    setQueuePaused(Boolean(data.paused));
+  };
+
+  const cancelServerBatch = async (batchId: string) => {
+    await fetch(`/api/batches/${batchId}/cancel`, { method: 'POST' }).catch(() => null);
+    loadServerBatches();
+  };
+
+  type RenderRequest = Awaited<ReturnType<typeof buildRenderRequest>>;
+
+  // The first submission creates the server batch; later ones join it. Returns the batch id to use next.
+  const submitBatchItems = async (batchId: string | null, name: string, requests: RenderRequest[]): Promise<string | null> => {
+    try {
+      const response = await fetch(batchId ? `/api/batches/${batchId}/items` : '/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(batchId ? { items: requests } : { name, items: requests }),
+      });
+      if (response.status === 404 && batchId) {
+        // The batch is gone (e.g. the server cache was cleared), so start a new one.
+        return submitBatchItems(null, name, requests);
+      }
+      const data = await response.json().catch(() => null);
+      const itemErrors = new Map<string, string>(
+        (Array.isArray(data?.errors) ? data.errors : []).map((entry: { itemId: string; error: string }) => [
+          entry.itemId,
+          entry.error,
+        ])
+      );
+      const queued = new Set<string>();
+      (Array.isArray(data?.jobs) ? (data.jobs as { itemId: string; jobId: string }[]) : []).forEach(({ itemId, jobId }) => {
+        queued.add(itemId);
+        onUpdateItem(itemId, { jobId, status: 'RENDERING', progress: 0, renderStage: 'Queued on server' });
+      });
+      requests
+        .filter((request) => !queued.has(request.itemId))
+        .forEach((request) =>
+          onUpdateItem(request.itemId, {
+            status: 'FAILED',
+            progress: 0,
+            renderStage: undefined,
+            errorMessage: itemErrors.get(request.itemId) || data?.error || 'Batch could not be created.',
+          })
+        );
+      return typeof data?.batchId === 'string' ? data.batchId : batchId;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Batch could not be created.';
+      requests.forEach((request) =>
+        onUpdateItem(request.itemId, { status: 'FAILED', progress: 0, renderStage: undefined, errorMessage: message })
+      );
+      return batchId;
+    }
+  };
+
+  // Each item is handed to the server as soon as its media is uploaded, so rendering starts
+  // while later items are still uploading. App follows the jobs over the event stream.
   const startBatchRender = async () => {
     if (items.length === 0) return;
     batchController.current.cancelled = false;
     setIsProcessing(true);
 
+    const batchName = `Batch ${new Date().toLocaleString()}`;
+    let batchId: string | null = null;
     for (const item of items) {
       if (batchController.current.cancelled) {
         break;
       }
       if (item.status === 'COMPLETED' || item.status === 'RENDERING') continue;
+      onUpdateItem(item.id, {
+        status: 'RENDERING',
+        progress: 0,
+        renderStage: 'Uploading media',
+        errorMessage: undefined,
+        failureClass: undefined,
+        attemptCount: undefined,
+        outputUrl: undefined,
+        renderOutputs: undefined,
+        jobId: undefined,
+      });
+      let request: RenderRequest;
       try {
-        await renderQueueItem(item);
+        request = await buildRenderRequest(item);
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Render failed.';
-        onUpdateItem(item.id, { status: 'FAILED', progress: 0, errorMessage: message });
+        onUpdateItem(item.id, { status: 'FAILED', progress: 0, renderStage: undefined, errorMessage: message });
+        continue;
+      } finally {
+        setUploadProgress(({ [item.id]: _done, ...rest }) => rest);
       }
+      if (batchController.current.cancelled) {
+        onUpdateItem(item.id, { status: 'PENDING', renderStage: undefined });
+        break;
+      }
+      batchId = await submitBatchItems(batchId, batchName, [request]);
+      loadServerBatches();
     }
 
     setIsProcessing(false);
+    loadServerBatches();
+  };
+
+  const downloadOutput = (item: ProjectConfig, output: RenderOutput) => {
+    const a = document.createElement('a');
+    a.href = output.url;
+    a.download = `${item.name}-${output.id}.mp4`;
+    a.click();
   };
 
   const downloadItem = (item: ProjectConfig) => {
+    if (item.renderOutputs && item.renderOutputs.length > 1) {
+      item.renderOutputs.forEach((output) => downloadOutput(item, output));
+      return;
+    }
     if (!item.outputUrl) return;
     const a = document.createElement('a');
     a.href = item.outputUrl;
@@ -273,7 +495,8 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
         <div className="space-y-1">
           <h1 className="text-3xl font-black text-slate-900 tracking-tight">Production Queue</h1>
           <p className="text-sm text-slate-500">
-            {items.length} compositions prepared for sequential local rendering.
+            {items.length} compositions prepared for local rendering. Once submitted, the render server finishes the
+            batch even if this tab is closed.
           </p>
         </div>
         
@@ -287,6 +510,19 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
             </button>
           )}
           
+          {(queuePaused || items.length > 0) && (
+            <button
+              onClick={toggleQueuePause}
+              className={`px-6 py-4 rounded-2xl font-bold text-sm shadow-sm transition-all border ${
+                queuePaused
+                  ? 'bg-amber-50 border-amber-200 text-amber-700 hover:bg-amber-100'
+                  : 'bg-white border-slate-200 text-slate-900 hover:bg-slate-50'
+              }`}
+            >
+              {queuePaused ? 'Resume Queue' : 'Pause Queue'}
+            </button>
+          )}
+
           {completedCount > 0 && (
             <button 
               onClick={downloadAll}
@@ -310,6 +546,48 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
         </div>
       </header>
 
+      {queuePaused && (
+        <div className="mb-8 p-5 bg-amber-50 rounded-3xl border border-amber-100 text-xs font-bold text-amber-700">
+          Queue paused. Jobs that already started will finish. Nothing else starts until you resume, and new
+          submissions wait in line.
+        </div>
+      )}
+
+      {!queuePaused && renderWindow && !renderWindow.open && (
+        <div className="mb-8 p-5 bg-indigo-50 rounded-3xl border border-indigo-100 text-xs font-bold text-indigo-700">
+          Outside the render window.{' '}
+          {renderWindow.nextOpen
+            ? `Queued jobs are waiting for the next window (${renderWindow.nextOpen}).`
+            : 'No window is configured, so queued jobs will not start. Check the schedule in Engine Config.'}
+        </div>
+      )}
+
+      {serverBatches.length > 0 && (
+        <section className="mb-8 bg-white rounded-3xl border border-slate-100 shadow-sm p-6 space-y-3">
+          <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em]">Server Batches</h2>
+          {serverBatches.slice(0, 5).map((batch) => (
+            <div key={batch.batchId} className="flex items-center gap-4 text-[10px] font-bold text-slate-500">
+              <span className="font-black text-slate-900 truncate flex-1">{batch.name}</span>
+              <span className="tabular-nums">
+                {batch.counts.completed}/{batch.total} done
+                {batch.counts.active > 0 && ` · ${batch.counts.active} active`}
+                {batch.counts.queued > 0 && ` · ${batch.counts.queued} queued`}
+                {batch.counts.failed > 0 && ` · ${batch.counts.failed} failed`}
+                {batch.counts.cancelled > 0 && ` · ${batch.counts.cancelled} cancelled`}
+              </span>
+              {!batch.done && (
+                <button
+                  onClick={() => cancelServerBatch(batch.batchId)}
+                  className="text-[10px] font-black text-red-500 hover:text-red-600 uppercase tracking-widest"
+                >
+                  Cancel Batch
+                </button>
+              )}
+            </div>
+          ))}
+        </section>
+      )}
+
       {items.length === 0 ? (
         <div className="bg-white rounded-[2.5rem] border-2 border-dashed border-slate-100 p-20 text-center">
            <div className="w-20 h-20 bg-slate-50 rounded-3xl flex items-center justify-center mx-auto mb-6 text-slate-200">
@@ -321,9 +599,30 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
       ) : (
         <div className="grid grid-cols-1 gap-4">
           {items.map((item, idx) => (
-            <div key={item.id} className={`group bg-white p-6 rounded-3xl border transition-all flex items-center gap-6 ${
-              item.status === 'RENDERING' ? 'border-blue-500 shadow-xl shadow-blue-50' : 'border-slate-100 shadow-sm'
-            }`}>
+            <div
+              key={item.id}
+              draggable={item.status !== 'COMPLETED'}
+              onDragStart={() => setDraggingId(item.id)}
+              onDragEnd={() => {
+                setDraggingId(null);
+                setDropIndex(null);
+              }}
+              onDragOver={(e) => {
+                if (draggingId) {
+                  e.preventDefault();
+                  setDropIndex(idx);
+                }
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropItem(idx);
+              }}
+              className={`group bg-white p-6 rounded-3xl border transition-all flex items-center gap-6 ${
+                dropIndex === idx && draggingId !== item.id
+                  ? 'border-blue-300 border-dashed'
+                  : item.status === 'RENDERING' ? 'border-blue-500 shadow-xl shadow-blue-50' : 'border-slate-100 shadow-sm'
+              } ${draggingId === item.id ? 'opacity-50' : ''} ${item.status !== 'COMPLETED' ? 'cursor-grab' : ''}`}
+            >
                <div className="w-14 h-14 bg-slate-50 rounded-2xl flex items-center justify-center text-slate-400 font-black text-sm shrink-0 border border-slate-100">
                   {idx + 1}
                </div>
@@ -342,8 +641,10 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
                      </span>
                   </div>
                   <div className="flex items-center gap-4 text-[10px] font-bold text-slate-400 uppercase tracking-tighter">
-                     <span className="flex items-center gap-1"><ICONS.Video className="w-3 h-3" /> {item.exportQuality}</span>
-                     <span className="flex items-center gap-1"><ICONS.Music className="w-3 h-3" /> {item.bgm?.name || 'No BGM'}</span>
+                     <span className="flex items-center gap-1"><ICONS.Video className="w-3 h-3" /> {item.outputs.map(formatOutputProfile).join(' + ')}</span>
+                     {item.frameFit !== 'crop' && <span>{item.frameFit === 'blur' ? 'Blur Fill' : 'Fit'}</span>}
+                     <span>{item.clips.length} clip{item.clips.length === 1 ? '' : 's'}</span>
+                     <span className="flex items-center gap-1"><ICONS.Music className="w-3 h-3" /> {item.audioCues.map((cue) => cue.name).join(' + ') || 'No Audio'}</span>
                   </div>
                   {(item.status === 'FAILED' || item.status === 'CANCELLED') && item.errorMessage && (
                     <p
@@ -354,9 +655,64 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
                       {item.errorMessage}
                     </p>
                   )}
+                  {item.status === 'FAILED' && item.failureClass && (
+                    <div className="mt-1 flex items-center gap-2 text-[10px] font-bold text-slate-500">
+                      <span className="text-[9px] font-black px-1.5 py-0.5 rounded tracking-widest uppercase border bg-red-50 text-red-600 border-red-100">
+                        {FAILURE_CLASS_INFO[item.failureClass].label}
+                      </span>
+                      <span>
+                        {FAILURE_CLASS_INFO[item.failureClass].hint}
+                        {item.attemptCount && item.attemptCount > 1 ? ` Failed after ${item.attemptCount} attempts.` : ''}
+                      </span>
+                    </div>
+                  )}
+                  {item.status === 'COMPLETED' && item.renderOutputs && item.renderOutputs.length > 1 && (
+                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                      {item.renderOutputs.map((output) => (
+                        <button
+                          key={output.id}
+                          onClick={() => downloadOutput(item, output)}
+                          className="text-[10px] font-black text-blue-600 bg-blue-50 hover:bg-blue-600 hover:text-white px-2 py-1 rounded-lg uppercase tracking-widest transition-all"
+                        >
+                          {output.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {item.status === 'COMPLETED' && item.renderOutputs?.some((output) => output.loudness) && (
+                    <div className="mt-1 flex flex-wrap gap-x-3 text-[10px] font-bold text-slate-500">
+                      {item.renderOutputs.flatMap((output) =>
+                        output.loudness
+                          ? [
+                            <span key={output.id}>
+                              {item.renderOutputs && item.renderOutputs.length > 1 ? output.label : 'Loudness'}:{' '}
+                              <span className="tabular-nums">{formatLoudness(output.loudness)}</span>
+                            </span>,
+                          ]
+                          : []
+                      )}
+                    </div>
+                  )}
+                  {uploadProgress[item.id] && (
+                    <div className="mt-2 space-y-1 max-w-sm">
+                      {Object.entries<number>(uploadProgress[item.id]).map(([label, fraction]) => (
+                        <div key={label} className="flex items-center gap-2 text-[10px] font-bold text-slate-500">
+                          <span className="w-28 truncate">Upload {label}</span>
+                          <div className="flex-1 bg-slate-100 h-1 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-emerald-500 transition-all duration-300"
+                              style={{ width: `${Math.round(fraction * 100)}%` }}
+                            ></div>
+                          </div>
+                          <span className="w-8 text-right tabular-nums">{Math.round(fraction * 100)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   {item.status === 'RENDERING' && item.jobId && (
                     <div className="mt-2 flex items-center gap-3 text-[10px] font-bold text-blue-600">
                       <span>Job: {item.jobId.slice(0, 8).toUpperCase()}</span>
+                      {item.renderStage && <span className="text-slate-400">{item.renderStage}</span>}
                       <button
                         onClick={() => cancelRender(item)}
                         className="text-[10px] font-black text-red-500 hover:text-red-600 uppercase tracking-widest"
@@ -395,6 +751,13 @@ export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onUpdateItem, onC
                     >
                       <ICONS.Download className="w-5 h-5" />
                     </button>
+                  ) : idx > items.findIndex((other) => other.status !== 'COMPLETED') ? (
+                    <button
+                      onClick={() => renderNext(item)}
+                      className="px-3 py-2 text-[10px] font-black text-blue-600 bg-blue-50 rounded-xl uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all"
+                    >
+                      Render Next
+                    </button>
                   ) : (
                     <div className="w-10 h-10 border-2 border-slate-100 rounded-xl border-dashed"></div>
                   )}
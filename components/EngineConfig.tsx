@@ -1,15 +1,69 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { ICONS } from '../constants';
 
-type CacheBucket = { files: number; bytes: number };
+type CacheBucket = { files: number; bytes: number; lastUsedAt?: string | null };
+type CacheEntry = { name: string; bytes: number; lastUsedAt: string; inUse: boolean };
 type CacheStats = {
   uploads: CacheBucket;
   cache: CacheBucket;
   output: CacheBucket;
   bundle: CacheBucket;
   jobsFile: CacheBucket;
+  budget: { maxBytes: number; usedBytes: number };
+  cacheEntries: CacheEntry[];
   total: CacheBucket;
 };
+type CacheCategory = 'uploads' | 'cache' | 'outputs' | 'bundle';
+
+const CACHE_CATEGORY_INFO: Record<CacheCategory, { label: string; description: string }> = {
+  uploads: { label: 'Uploads', description: 'Server copies of your media. They are uploaded again on the next render.' },
+  cache: { label: 'Normalized Cache', description: 'Re-encoded 24fps media. It is rebuilt on the next render.' },
+  outputs: { label: 'Outputs', description: 'Rendered videos and the render job history.' },
+  bundle: { label: 'Bundle', description: 'The compiled Remotion project. It is rebuilt right away.' },
+};
+
+const formatLastUsed = (value?: string | null) => {
+  if (!value) {
+    return 'Never';
+  }
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) {
+    return 'Just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} min ago`;
+  }
+  if (minutes < 48 * 60) {
+    return `${Math.round(minutes / 60)} h ago`;
+  }
+  return new Date(value).toLocaleDateString();
+};
+type StageState = { limit: number; active: number; waiting: number };
+type ScheduleWindow = { days: number[]; start: string; end: string; maxJobs: number };
+type ScheduleState = { enabled: boolean; open: boolean; jobLimit: number; nextOpen: string | null };
+type RenderSchedule = { enabled: boolean; windows: ScheduleWindow[] };
+type PoolState = {
+  paused: boolean;
+  schedule: ScheduleState;
+  maxParallelJobs: number;
+  activeJobs: number;
+  queuedJobs: number;
+  renderConcurrency: number | string;
+  stages: { normalize: StageState; render: StageState };
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_WINDOW: ScheduleWindow = { days: [0, 1, 2, 3, 4, 5, 6], start: '22:00', end: '06:00', maxJobs: 1 };
+
+const formatScheduleState = (state: ScheduleState) => {
+  if (!state.enabled) {
+    return 'Always Open';
+  }
+  if (state.open) {
+    return `Open (${state.jobLimit} job${state.jobLimit === 1 ? '' : 's'})`;
+  }
+  return state.nextOpen ? `Closed until ${state.nextOpen}` : 'Closed';
+};
 
 const formatBytes = (bytes: number) => {
   if (!Number.isFinite(bytes) || bytes <= 0) {
@@ -29,12 +83,39 @@ export const EngineConfig: React.FC<{
   onCacheCleared: () => void;
 }> = ({ onCacheCleared }) => {
   const [stats, setStats] = useState<CacheStats | null>(null);
+  const [pool, setPool] = useState<PoolState | null>(null);
+  const [schedule, setSchedule] = useState<RenderSchedule | null>(null);
+  const [scheduleDirty, setScheduleDirty] = useState(false);
+  const [budgetGb, setBudgetGb] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const loadPool = async () => {
+    try {
+      const response = await fetch('/api/health');
+      const data = response.ok ? await response.json() : null;
+      setPool(data?.pool ?? null);
+    } catch {
+      setPool(null);
+    }
+  };
+
+  const loadSchedule = async () => {
+    try {
+      const response = await fetch('/api/schedule');
+      const data = response.ok ? await response.json() : null;
+      setSchedule(data ? { enabled: Boolean(data.enabled), windows: Array.isArray(data.windows) ? data.windows : [] } : null);
+      setScheduleDirty(false);
+    } catch {
+      setSchedule(null);
+    }
+  };
+
   const loadStats = async () => {
     setIsLoading(true);
     setError(null);
+    loadPool();
+    loadSchedule();
     try {
       const response = await fetch('/api/cache/stats');
       if (!response.ok) {
@@ -42,6 +123,7 @@ export const EngineConfig: React.FC<{
       }
       const data = (await response.json()) as CacheStats;
       setStats(data);
+      setBudgetGb(data.budget ? String(Math.round((data.budget.maxBytes / 1024 ** 3) * 10) / 10) : '');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unable to load cache stats.');
       setStats(null);
@@ -58,48 +140,121 @@ export const EngineConfig: React.FC<{
     if (!stats) {
       return null;
     }
+    const buckets: Record<CacheCategory, CacheBucket> = {
+      uploads: stats.uploads,
+      cache: stats.cache,
+      outputs: stats.output,
+      bundle: stats.bundle,
+    };
+    return (Object.keys(buckets) as CacheCategory[]).map((category) => ({
+      category,
+      label: CACHE_CATEGORY_INFO[category].label,
+      value: formatBytes(buckets[category].bytes),
+      lastUsed: formatLastUsed(buckets[category].lastUsedAt),
+    }));
+  }, [stats]);
+
+  const poolSummary = useMemo(() => {
+    if (!pool) {
+      return null;
+    }
+    const formatStage = (stage: StageState) =>
+      `${stage.active} / ${stage.limit}${stage.waiting > 0 ? ` (+${stage.waiting} waiting)` : ''}`;
     return [
-      { label: 'Uploads', value: formatBytes(stats.uploads.bytes) },
-      { label: 'Normalized Cache', value: formatBytes(stats.cache.bytes) },
-      { label: 'Outputs', value: formatBytes(stats.output.bytes) },
-      { label: 'Bundle', value: formatBytes(stats.bundle.bytes) },
+      { label: 'Queue', value: pool.paused ? 'Paused' : 'Running' },
+      { label: 'Render Window', value: formatScheduleState(pool.schedule) },
+      { label: 'Parallel Jobs', value: `${pool.activeJobs} / ${pool.maxParallelJobs}` },
+      { label: 'Queued', value: String(pool.queuedJobs) },
+      { label: 'Normalize Slots', value: formatStage(pool.stages.normalize) },
+      { label: 'Render Slots', value: formatStage(pool.stages.render) },
     ];
-  }, [stats]);
+  }, [pool]);
 
-  const clearCache = async () => {
-    const confirmed = window.confirm(
-      [
-        'Delete local render cache?',
-        '',
-        'This deletes:',
-        '- Render outputs',
-        '- Upload copies + normalized media cache',
-        '- Render job history + bundle',
-        '',
-        'This keeps:',
-        '- Asset Library (your browser stored files)',
-        '- Queue list (but completed outputs will be reset)',
-        '',
-        'Continue?',
-      ].join('\n')
-    );
-    if (!confirmed) {
+  const toggleQueuePause = async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/queue/${pool?.paused ? 'resume' : 'pause'}`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Unable to change the queue state.');
+      }
+      await loadPool();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to change the queue state.');
+    }
+  };
+
+  const editSchedule = (updates: Partial<RenderSchedule>) => {
+    setSchedule((current) => (current ? { ...current, ...updates } : current));
+    setScheduleDirty(true);
+  };
+
+  const updateWindow = (index: number, updates: Partial<ScheduleWindow>) => {
+    if (!schedule) {
       return;
     }
+    editSchedule({ windows: schedule.windows.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)) });
+  };
+
+  const toggleWindowDay = (index: number, day: number) => {
+    const days = schedule?.windows[index]?.days ?? [];
+    updateWindow(index, { days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b) });
+  };
+
+  const saveSchedule = async () => {
+    if (!schedule) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch('/api/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schedule),
+      });
+      if (!response.ok) {
+        throw new Error('Unable to save the render schedule.');
+      }
+      await Promise.all([loadSchedule(), loadPool()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the render schedule.');
+    }
+  };
 
+  const saveBudget = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/cache/budget', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ maxGb: Number(budgetGb) }),
+      });
+      if (!response.ok) {
+        const payload = await response.json().catch(() => null);
+        throw new Error(payload?.error || 'Unable to save the cache budget.');
+      }
+      await loadStats();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the cache budget.');
+    }
+  };
+
+  const requestClear = async (categories?: CacheCategory[]) => {
     setIsLoading(true);
     setError(null);
     try {
       const response = await fetch('/api/cache/clear', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
+        body: JSON.stringify(categories ? { categories } : {}),
       });
       if (!response.ok) {
         const payload = await response.json().catch(() => null);
         throw new Error(payload?.error || 'Unable to clear cache.');
       }
-      onCacheCleared();
+      // Queue items only lose their results when the outputs are deleted.
+      if (!categories || categories.includes('outputs')) {
+        onCacheCleared();
+      }
       await loadStats();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unable to clear cache.');
@@ -108,6 +263,36 @@ export const EngineConfig: React.FC<{
     }
   };
 
+  const clearCategory = (category: CacheCategory) => {
+    const { label, description } = CACHE_CATEGORY_INFO[category];
+    if (window.confirm(`Delete ${label}?\n\n${description}\n\nContinue?`)) {
+      requestClear([category]);
+    }
+  };
+
+  const clearCache = async () => {
+    const confirmed = window.confirm(
+      [
+        'Delete local render cache?',
+        '',
+        'This deletes:',
+        '- Render outputs',
+        '- Upload copies + normalized media cache',
+        '- Render job history + bundle',
+        '',
+        'This keeps:',
+        '- Asset Library (your browser stored files)',
+        '- Queue list (but completed outputs will be reset)',
+        '',
+        'Continue?',
+      ].join('\n')
+    );
+    if (!confirmed) {
+      return;
+    }
+    await requestClear();
+  };
+
   return (
     <div className="max-w-[900px] mx-auto p-10 animate-fadeIn">
       <header className="flex justify-between items-end mb-10 pb-8 border-b border-slate-100">
@@ -150,8 +335,18 @@ export const EngineConfig: React.FC<{
         <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
           {summary?.map((item) => (
             <div key={item.label} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
-              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{item.label}</p>
+              <div className="flex items-center justify-between">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{item.label}</p>
+                <button
+                  onClick={() => clearCategory(item.category)}
+                  disabled={isLoading}
+                  className="text-[10px] font-black text-red-400 uppercase tracking-widest hover:text-red-600 disabled:opacity-50"
+                >
+                  Clear
+                </button>
+              </div>
               <p className="text-lg font-black text-slate-900 mt-1">{item.value}</p>
+              <p className="text-[10px] font-bold text-slate-400 mt-1">Last used: {item.lastUsed}</p>
             </div>
           ))}
           {!stats && !isLoading && (
@@ -161,7 +356,203 @@ export const EngineConfig: React.FC<{
             </div>
           )}
         </div>
+
+        {stats?.budget && (
+          <div className="mt-6 pt-6 border-t border-slate-100">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Cache Budget</h3>
+                <p className="text-xs text-slate-500 mt-1 max-w-md">
+                  Normalized media over the budget is evicted after each render, least recently used first. Files a
+                  running job needs are kept.
+                </p>
+                <p className="text-sm font-black text-slate-900 mt-2">
+                  {formatBytes(stats.budget.usedBytes)} of {formatBytes(stats.budget.maxBytes)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={budgetGb}
+                  onChange={(e) => setBudgetGb(e.target.value)}
+                  className="w-24 px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700"
+                />
+                <span className="text-[10px] font-black text-slate-400 uppercase">GB</span>
+                <button
+                  onClick={saveBudget}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-blue-700 transition-all"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+            {stats.cacheEntries.length > 0 && (
+              <div className="mt-4 space-y-1">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Next to Evict</p>
+                {stats.cacheEntries.slice(0, 8).map((entry) => (
+                  <div key={entry.name} className="flex items-center gap-3 text-[10px] font-bold text-slate-500">
+                    <span className="flex-1 truncate font-mono">{entry.name}</span>
+                    {entry.inUse && <span className="text-blue-600 uppercase tracking-widest">In Use</span>}
+                    <span className="tabular-nums">{formatBytes(entry.bytes)}</span>
+                    <span className="w-24 text-right">{formatLastUsed(entry.lastUsedAt)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
+
+      <div className="mt-8 bg-white rounded-[2rem] border border-slate-100 shadow-sm p-8">
+        <div className="flex items-start justify-between gap-6">
+          <div>
+            <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">Worker Pool</h2>
+            <p className="text-xs text-slate-500 max-w-xl">
+              Jobs run side by side up to the parallel limit. Normalization and rendering each have their own slots; set
+              them with <code>RENDER_MAX_PARALLEL_JOBS</code>, <code>RENDER_NORMALIZE_SLOTS</code>, and{' '}
+              <code>RENDER_RENDER_SLOTS</code> when starting the render server.
+              {pool && ` Each render uses ${pool.renderConcurrency} frame workers.`}
+            </p>
+            <p className="text-xs text-slate-500 mt-1 max-w-xl">
+              Pausing lets running jobs finish but starts nothing new, so the machine is free until you resume.
+            </p>
+          </div>
+
+          {pool && (
+            <button
+              onClick={toggleQueuePause}
+              className={`px-6 py-4 rounded-2xl border font-black text-xs uppercase tracking-widest transition-all ${
+                pool.paused
+                  ? 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100'
+                  : 'bg-white text-slate-900 border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              {pool.paused ? 'Resume Queue' : 'Pause Queue'}
+            </button>
+          )}
+        </div>
+        <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {poolSummary?.map((item) => (
+            <div key={item.label} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{item.label}</p>
+              <p className="text-lg font-black text-slate-900 mt-1">{item.value}</p>
+            </div>
+          ))}
+          {!pool && (
+            <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pool</p>
+              <p className="text-sm font-bold text-slate-500 mt-1">Pool state unavailable (is the render server running?).</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {schedule && (
+        <div className="mt-8 bg-white rounded-[2rem] border border-slate-100 shadow-sm p-8">
+          <div className="flex items-start justify-between gap-6">
+            <div>
+              <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] mb-2">Render Schedule</h2>
+              <p className="text-xs text-slate-500 max-w-xl">
+                Only start jobs inside these windows (render server local time). Jobs already running when a window
+                closes finish; the rest wait for the next window. A window that ends before it starts runs past
+                midnight.
+              </p>
+            </div>
+            <button
+              onClick={() => editSchedule({ enabled: !schedule.enabled })}
+              className={`px-6 py-4 rounded-2xl border font-black text-xs uppercase tracking-widest transition-all ${
+                schedule.enabled
+                  ? 'bg-blue-600 text-white border-blue-600 hover:bg-blue-700'
+                  : 'bg-white text-slate-900 border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              {schedule.enabled ? 'Schedule On' : 'Schedule Off'}
+            </button>
+          </div>
+
+          <div className={`mt-6 space-y-3 ${schedule.enabled ? '' : 'opacity-50'}`}>
+            {schedule.windows.map((entry, index) => (
+              <div
+                key={index}
+                className="p-4 bg-slate-50 rounded-2xl border border-slate-100 flex flex-wrap items-center gap-4"
+              >
+                <div className="flex gap-1">
+                  {WEEKDAYS.map((label, day) => (
+                    <button
+                      key={label}
+                      onClick={() => toggleWindowDay(index, day)}
+                      className={`w-10 py-2 rounded-lg text-[10px] font-black uppercase transition-all ${
+                        entry.days.includes(day)
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-white text-slate-400 border border-slate-200 hover:text-slate-700'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400">
+                  From
+                  <input
+                    type="time"
+                    value={entry.start}
+                    onChange={(e) => updateWindow(index, { start: e.target.value })}
+                    className="px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400">
+                  To
+                  <input
+                    type="time"
+                    value={entry.end}
+                    onChange={(e) => updateWindow(index, { end: e.target.value })}
+                    className="px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-400">
+                  Max Jobs
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={entry.maxJobs}
+                    onChange={(e) => updateWindow(index, { maxJobs: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className="w-16 px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700"
+                  />
+                </label>
+                <button
+                  onClick={() => editSchedule({ windows: schedule.windows.filter((_, i) => i !== index) })}
+                  className="ml-auto text-[10px] font-black text-red-400 uppercase tracking-widest hover:text-red-600"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            {schedule.enabled && schedule.windows.length === 0 && (
+              <p className="text-xs font-bold text-amber-600">No windows yet, so queued jobs will not start.</p>
+            )}
+          </div>
+
+          <div className="mt-6 flex items-center gap-4">
+            <button
+              onClick={() => editSchedule({ windows: [...schedule.windows, { ...DEFAULT_WINDOW }] })}
+              className="px-5 py-3 bg-white border border-slate-200 rounded-2xl text-slate-900 font-bold text-xs hover:bg-slate-50 transition-all"
+            >
+              + Add Window
+            </button>
+            <button
+              onClick={saveSchedule}
+              disabled={!scheduleDirty}
+              className="px-5 py-3 bg-blue-600 text-white rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-blue-700 transition-all disabled:opacity-50"
+            >
+              Save Schedule
+            </button>
+            {pool && <p className="text-xs font-bold text-slate-500">{formatScheduleState(pool.schedule)}</p>}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
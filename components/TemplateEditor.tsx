@@ -1,11 +1,144 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ICONS } from '../constants';
-import { ProjectConfig, BGMMode, BGMAsset, LibraryAsset, VideoAsset } from '../types';
-import { clampDb, dbToGain, formatDb } from '../audioLevels';
+import {
+  ProjectConfig,
+  AudioCue,
+  LibraryAsset,
+  VideoAsset,
+  TransitionSettings,
+  TransitionType,
+  ExportQuality,
+  OutputFormat,
+  FrameFit,
+  CaptionAsset,
+  CaptionStyle,
+  DuckingSettings,
+  LibraryAssetKind,
+  OutputProfile,
+  OverlayAsset,
+  OverlayCorner,
+  SpeechRegion,
+  TextLayer,
+} from '../types';
+import { MAX_DB, MAX_FADE_SECONDS, MIN_DB, clampDb, dbToGain, formatDb } from '../audioLevels';
+import { DEFAULT_TRANSITION, MAX_TRANSITION_SECONDS, TIMELINE_FPS, buildClipTimelineFromSeconds } from '../timeline';
+import {
+  DEFAULT_DUCKING,
+  MAX_DUCK_ATTACK_MS,
+  MAX_DUCK_RELEASE_MS,
+  MIN_DUCK_DEPTH_DB,
+  analyzeSpeech,
+  buildDuckingEnvelope,
+  scheduleDuckingEnvelope,
+} from '../ducking';
+import {
+  CAPTION_FILE_ACCEPT,
+  CAPTION_FONTS,
+  DEFAULT_CAPTION_STYLE,
+  MAX_CAPTION_FONT_SIZE,
+  MIN_CAPTION_FONT_SIZE,
+  isCaptionFile,
+} from '../captions';
+import {
+  DEFAULT_OVERLAY_SETTINGS,
+  MAX_OVERLAY_MARGIN,
+  MAX_OVERLAY_SCALE,
+  MIN_OVERLAY_SCALE,
+  OVERLAY_IMAGE_ACCEPT,
+  createOverlayFromLibrary,
+  getOverlayPlacement,
+  isOverlayImageFile,
+} from '../overlay';
+import {
+  BUILT_IN_TEXT_FIELDS,
+  MAX_TEXT_LAYERS,
+  TEXT_LAYER_PRESETS,
+  createTextLayer,
+  fillTemplate,
+  getTemplateFields,
+  getTextLayerOffset,
+  getTextLayerStyles,
+} from '../textLayers';
+import { BATCH_STRATEGIES, BatchStrategy, buildBatchCombos, countUnusedClips } from '../batchStrategy';
+import { MANIFEST_FILE_ACCEPT, ManifestRow, parseManifest, resolveManifestRows } from '../manifest';
+import {
+  DEFAULT_OUTPUT_PROFILE,
+  MAX_OUTPUT_PROFILES,
+  dedupeOutputProfiles,
+  LOUDNESS_TARGETS,
+  formatOutputProfile,
+  getOutputProfileId,
+} from '../outputProfiles';
+import { MAX_AUDIO_CUES, createAudioCue, formatCueAnchor, isCueLooping } from '../audioCues';
 import { saveMediaBlob } from '../mediaStore';
 import { getMediaDuration } from '../mediaDuration';
 
+type DropTarget = number | 'audio' | 'overlay';
+
+interface CueTimingModes {
+  start: 'beginning' | 'end' | 'custom';
+  length: 'full' | 'custom';
+}
+
+const DEFAULT_CUE_MODES: CueTimingModes = { start: 'beginning', length: 'full' };
+
+const MAX_CLIP_SLOTS = 6;
+
+const getSlotLabel = (slot: number) => {
+  if (slot === 0) {
+    return 'Intro Clip';
+  }
+  if (slot === 1) {
+    return 'Body Clip (Optional)';
+  }
+  return `Clip ${slot + 1} (Optional)`;
+};
+
+const TRANSITION_OPTIONS = [
+  { value: TransitionType.NONE, label: 'Hard Cut' },
+  { value: TransitionType.CROSSFADE, label: 'Crossfade' },
+  { value: TransitionType.DIP_TO_BLACK, label: 'Dip to Black' },
+  { value: TransitionType.WIPE, label: 'Wipe' },
+] as const;
+
+const QUALITY_OPTIONS: ExportQuality[] = ['720p', '1080p', '4k'];
+
+const FORMAT_OPTIONS: { value: OutputFormat; label: string; aspect: string }[] = [
+  { value: '16:9', label: '16:9 Wide', aspect: '16 / 9' },
+  { value: '9:16', label: '9:16 Vertical', aspect: '9 / 16' },
+  { value: '1:1', label: '1:1 Square', aspect: '1 / 1' },
+];
+
+const FIT_OPTIONS: { value: FrameFit; label: string }[] = [
+  { value: 'crop', label: 'Crop' },
+  { value: 'fit', label: 'Fit' },
+  { value: 'blur', label: 'Blur Fill' },
+];
+
+const OVERLAY_CORNER_OPTIONS: { value: OverlayCorner; label: string }[] = [
+  { value: 'top-left', label: 'Top Left' },
+  { value: 'top-right', label: 'Top Right' },
+  { value: 'bottom-left', label: 'Bottom Left' },
+  { value: 'bottom-right', label: 'Bottom Right' },
+];
+
+const CAPTION_POSITION_OPTIONS: { value: CaptionStyle['position']; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+const getSlotPickerLabel = (slot: number) => {
+  if (slot === 0) {
+    return 'Select Intro Clips';
+  }
+  if (slot === 1) {
+    return 'Select Body Clips';
+  }
+  return 'Select Clips';
+};
+
 interface TemplateEditorProps {
   onEnqueue: (configs: ProjectConfig[]) => void;
   library: LibraryAsset[];
@@ -16,69 +149,88 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
   const [config, setConfig] = useState<ProjectConfig>({
     id: '',
     name: `Composition_${new Date().toLocaleTimeString()}`,
-    video1: null,
-    video2: null,
-    bgm: null,
-    exportQuality: '720p',
+    clips: [],
+    audioCues: [],
+    transition: { ...DEFAULT_TRANSITION },
+    captionStyle: { ...DEFAULT_CAPTION_STYLE },
+    overlay: null,
+    textLayers: [],
+    textFields: {},
+    outputs: [{ ...DEFAULT_OUTPUT_PROFILE }],
+    frameFit: 'crop',
     status: 'PENDING',
     progress: 0
   });
 
-  const [batchVideo1, setBatchVideo1] = useState<VideoAsset[]>([]);
-  const [batchVideo2, setBatchVideo2] = useState<VideoAsset[]>([]);
-  const [showLibraryPicker, setShowLibraryPicker] = useState(false);
+  const [batchClips, setBatchClips] = useState<VideoAsset[][]>([[], []]);
+  const [batchStrategy, setBatchStrategy] = useState<BatchStrategy>('zip');
+  // Per-item text field values, keyed by the item's clip combination so reordering keeps them attached.
+  const [fieldValues, setFieldValues] = useState<Record<string, Record<string, string>>>({});
+  const [previewTime, setPreviewTime] = useState(0);
+  const [manifestReport, setManifestReport] = useState<null | {
+    fileName: string;
+    rows: ManifestRow[];
+    error?: string;
+  }>(null);
+  const [libraryPicker, setLibraryPicker] = useState<null | LibraryAssetKind>(null);
   const [totalFrames, setTotalFrames] = useState(600);
-  const [dragOverTarget, setDragOverTarget] = useState<null | 'video1' | 'video2' | 'bgm'>(null);
+  const [dragOverTarget, setDragOverTarget] = useState<null | DropTarget>(null);
   const [dropError, setDropError] = useState<string | null>(null);
-  const [bgmStartMode, setBgmStartMode] = useState<'beginning' | 'end' | 'custom'>('beginning');
-  const [bgmLengthMode, setBgmLengthMode] = useState<'full' | 'custom'>('full');
+  const [activeCueId, setActiveCueId] = useState<string | null>(null);
+  // How each cue's start and length follow its anchor, keyed by cueId so switching cues keeps them.
+  const [cueModes, setCueModes] = useState<Record<string, CueTimingModes>>({});
   const [audioUnlocked, setAudioUnlocked] = useState(false);
+  // Speech in the preview clip, found in the browser so the ducking envelope can be heard before rendering.
+  const [previewSpeech, setPreviewSpeech] = useState<{ url: string; regions: SpeechRegion[] } | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioTimers = useRef<{ start?: number; stop?: number }>({});
   const audioKickoff = useRef(false);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioGainRef = useRef<GainNode | null>(null);
+  const duckingGainRef = useRef<GainNode | null>(null);
   const audioSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
   const audioElementRef = useRef<HTMLAudioElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
 
-  const previewVideo1 = batchVideo1[0] ?? null;
-  const previewVideo2 = batchVideo2[0] ?? null;
+  const previewClips = useMemo(
+    () => batchClips.map((slot) => slot[0]).filter(Boolean) as VideoAsset[],
+    [batchClips]
+  );
+
+  const getSequenceTimeline = (clips: VideoAsset[]) =>
+    buildClipTimelineFromSeconds(
+      clips.map((clip) => clip.duration || 0),
+      config.transition
+    );
 
-  const getClipDuration = (mode: BGMMode, video1: VideoAsset | null, video2: VideoAsset | null) => {
-    const v1 = video1?.duration || 0;
-    const v2 = video2?.duration || 0;
+  const activeCue = config.audioCues.find((cue) => cue.cueId === activeCueId) ?? config.audioCues[0] ?? null;
+  const activeCueModes = (activeCue && cueModes[activeCue.cueId]) || DEFAULT_CUE_MODES;
 
-    if (mode === BGMMode.VIDEO1_ONLY) {
-      return v1;
-    }
-    if (mode === BGMMode.VIDEO2_ONLY) {
-      return v2;
+  const getClipDuration = (anchorClip: number | null, clips: VideoAsset[]) => {
+    if (anchorClip !== null) {
+      return clips[anchorClip]?.duration || 0;
     }
-    return v1 + v2;
+    return getSequenceTimeline(clips).totalFrames / TIMELINE_FPS;
   };
 
-  const getBgmTargetDuration = () => {
-    if (!config.bgm) {
-      return 0;
-    }
-    const duration = getClipDuration(config.bgm.mode, config.video1, config.video2);
+  const getCueTargetDuration = (cue: AudioCue) => {
+    const duration = getClipDuration(cue.anchorClip, config.clips);
     return duration > 0 ? duration : 30;
   };
 
-  const clampBgmToTarget = (bgm: BGMAsset, targetDuration: number) => {
+  const clampCueToTarget = (cue: AudioCue, targetDuration: number) => {
     if (targetDuration <= 0) {
       return {
-        ...bgm,
+        ...cue,
         startTime: 0,
-        playLength: Math.max(1, bgm.playLength || 1),
+        playLength: Math.max(1, cue.playLength || 1),
       };
     }
-    const playLength = Math.min(Math.max(1, bgm.playLength), targetDuration);
+    const playLength = Math.min(Math.max(1, cue.playLength), targetDuration);
     const maxStart = Math.max(0, targetDuration - playLength);
-    const startTime = Math.min(Math.max(0, bgm.startTime), maxStart);
+    const startTime = Math.min(Math.max(0, cue.startTime), maxStart);
     return {
-      ...bgm,
+      ...cue,
       playLength,
       startTime,
     };
@@ -87,80 +239,85 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
   useEffect(() => {
     setConfig((prev) => ({
       ...prev,
-      video1: previewVideo1,
-      video2: previewVideo2,
+      clips: previewClips,
     }));
-  }, [previewVideo1, previewVideo2]);
-
-  useEffect(() => {
-    const v1Dur = previewVideo1?.duration || 0;
-    const v2Dur = previewVideo2?.duration || 0;
-    const totalSec = v1Dur + v2Dur || 20;
-    setTotalFrames(Math.floor(totalSec * 24));
-  }, [previewVideo1, previewVideo2]);
+  }, [previewClips]);
 
   useEffect(() => {
-    setBgmStartMode('beginning');
-    setBgmLengthMode('full');
-  }, [config.bgm?.id]);
+    const sequenceFrames = previewClips.length > 0 ? getSequenceTimeline(previewClips).totalFrames : 0;
+    setTotalFrames(sequenceFrames || 20 * TIMELINE_FPS);
+  }, [previewClips, config.transition.type, config.transition.duration]);
 
   useEffect(() => {
-    if (!config.bgm) {
+    if (config.audioCues.length === 0) {
       return;
     }
-    if (!previewVideo2 && config.bgm.mode === BGMMode.VIDEO2_ONLY) {
+    const fitCue = (cue: AudioCue) => {
+      // A cue anchored past the clips this template has falls back to the intro clip.
+      let next =
+        cue.anchorClip !== null && cue.anchorClip >= Math.max(1, previewClips.length)
+          ? { ...cue, anchorClip: 0, startTime: 0 }
+          : cue;
+      const modes = cueModes[cue.cueId] ?? DEFAULT_CUE_MODES;
+      const targetDuration = getCueTargetDuration(next);
+      if (modes.length === 'full') {
+        next = { ...next, playLength: next.duration || next.playLength };
+      }
+      next = clampCueToTarget(next, targetDuration);
+      if (modes.start === 'beginning') {
+        next = { ...next, startTime: 0 };
+      }
+      if (modes.start === 'end') {
+        next = { ...next, startTime: Math.max(0, targetDuration - next.playLength) };
+      }
+      return clampCueToTarget(next, targetDuration);
+    };
+    const changed = config.audioCues.some((cue) => {
+      const fitted = fitCue(cue);
+      return (
+        fitted.anchorClip !== cue.anchorClip ||
+        fitted.playLength !== cue.playLength ||
+        fitted.startTime !== cue.startTime
+      );
+    });
+    if (changed) {
       setConfig((prev) => ({
         ...prev,
-        bgm: prev.bgm ? { ...prev.bgm, mode: BGMMode.VIDEO1_ONLY, startTime: 0 } : null,
+        audioCues: prev.audioCues.map(fitCue),
       }));
-      return;
-    }
-    const targetDuration = getBgmTargetDuration();
-    let next = config.bgm;
-    if (bgmLengthMode === 'full') {
-      next = { ...next, playLength: next.duration || next.playLength };
-    }
-    next = clampBgmToTarget(next, targetDuration);
-    if (bgmStartMode === 'beginning') {
-      next = { ...next, startTime: 0 };
-    }
-    if (bgmStartMode === 'end') {
-      next = { ...next, startTime: Math.max(0, targetDuration - next.playLength) };
     }
-    const clamped = clampBgmToTarget(next, targetDuration);
-    if (clamped.playLength !== config.bgm.playLength || clamped.startTime !== config.bgm.startTime) {
-      setConfig((prev) => ({
-        ...prev,
-        bgm: prev.bgm ? clamped : null,
-      }));
+  }, [previewClips, config.transition.type, config.transition.duration, config.audioCues, cueModes]);
+
+  // New cues become the one being edited.
+  const addAudioCue = (asset: { id: string; name: string; url: string; duration: number }) => {
+    if (config.audioCues.length >= MAX_AUDIO_CUES) {
+      setDropError(`A template can have up to ${MAX_AUDIO_CUES} audio cues.`);
+      return;
     }
-  }, [
-    previewVideo1,
-    previewVideo2,
-    config.bgm?.mode,
-    config.bgm?.duration,
-    config.bgm?.playLength,
-    config.bgm?.startTime,
-    bgmStartMode,
-    bgmLengthMode,
-  ]);
+    const cue = createAudioCue(asset);
+    setConfig((prev) => ({ ...prev, audioCues: [...prev.audioCues, cue] }));
+    setActiveCueId(cue.cueId);
+  };
+
+  const removeAudioCue = (cueId: string) => {
+    setConfig((prev) => ({ ...prev, audioCues: prev.audioCues.filter((cue) => cue.cueId !== cueId) }));
+    setCueModes((prev) => {
+      const { [cueId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
 
   const selectFromLibrary = (asset: LibraryAsset) => {
-    setConfig(prev => ({
+    addAudioCue(asset);
+    setLibraryPicker(null);
+  };
+
+  const selectOverlayFromLibrary = (asset: LibraryAsset) => {
+    setConfig((prev) => ({
       ...prev,
-      bgm: {
-        id: asset.id,
-        name: asset.name,
-        url: asset.url,
-        duration: asset.duration,
-        startTime: 0,
-        playLength: 30,
-        volumeDb: 0,
-        mode: BGMMode.FULL,
-        loop: false
-      }
+      overlay: createOverlayFromLibrary(asset, prev.overlay ?? DEFAULT_OVERLAY_SETTINGS),
     }));
-    setShowLibraryPicker(false);
+    setLibraryPicker(null);
   };
 
   const createVideoAsset = async (file: File): Promise<VideoAsset> => {
@@ -176,10 +333,12 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       name: file.name,
       url,
       duration: safeDuration,
+      volumeDb: 0,
+      muted: false,
     };
   };
 
-  const createBgmAsset = async (file: File): Promise<BGMAsset> => {
+  const createAudioAsset = async (file: File): Promise<LibraryAsset> => {
     const url = URL.createObjectURL(file);
     const assetId = Math.random().toString(36).substr(2, 9);
     saveMediaBlob(assetId, file).catch((error) => {
@@ -192,26 +351,31 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       name: file.name,
       url,
       duration: safeDuration,
-      startTime: 0,
-      playLength: 30,
-      volumeDb: 0,
-      mode: BGMMode.FULL,
-      loop: false,
+      addedAt: Date.now(),
+      kind: 'audio',
     };
   };
 
-  const appendVideoAssets = (target: 'video1' | 'video2', assets: VideoAsset[]) => {
+  const updateSlot = (slot: number, updater: (assets: VideoAsset[]) => VideoAsset[]) => {
+    setBatchClips((prev) => prev.map((assets, index) => (index === slot ? updater(assets) : assets)));
+  };
+
+  const appendVideoAssets = (slot: number, assets: VideoAsset[]) => {
     if (assets.length === 0) {
       return;
     }
-    if (target === 'video1') {
-      setBatchVideo1((prev) => [...prev, ...assets]);
-      return;
-    }
-    setBatchVideo2((prev) => [...prev, ...assets]);
+    updateSlot(slot, (prev) => [...prev, ...assets]);
+  };
+
+  const addClipSlot = () => {
+    setBatchClips((prev) => (prev.length >= MAX_CLIP_SLOTS ? prev : [...prev, []]));
+  };
+
+  const removeClipSlot = (slot: number) => {
+    setBatchClips((prev) => (prev.length <= 2 ? prev : prev.filter((_, index) => index !== slot)));
   };
 
-  const importVideoFiles = async (target: 'video1' | 'video2', files: File[]) => {
+  const importVideoFiles = async (target: number, files: File[]) => {
     const assets: VideoAsset[] = [];
     for (const file of files) {
       const asset = await createVideoAsset(file);
@@ -220,28 +384,90 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     appendVideoAssets(target, assets);
   };
 
-  const importBgmFile = async (file: File) => {
-    const newBgm = await createBgmAsset(file);
-    setConfig((prev) => ({ ...prev, bgm: newBgm }));
-    onAddToLibrary({
-      id: newBgm.id,
-      name: newBgm.name,
-      url: newBgm.url,
-      duration: newBgm.duration,
+  const attachCaptions = async (slot: number, assetId: string, file: File) => {
+    if (!isCaptionFile(file)) {
+      setDropError('Captions must be an .srt, .vtt, or .txt transcript file.');
+      return;
+    }
+    const captionId = Math.random().toString(36).substr(2, 9);
+    saveMediaBlob(captionId, file).catch((error) => {
+      console.warn('[media] Failed to persist captions.', error);
+    });
+    const captions: CaptionAsset = { id: captionId, name: file.name, url: URL.createObjectURL(file) };
+    updateSlot(slot, (assets) => assets.map((asset) => (asset.id === assetId ? { ...asset, captions } : asset)));
+  };
+
+  const detachCaptions = (slot: number, assetId: string) => {
+    updateSlot(slot, (assets) =>
+      assets.map((asset) => (asset.id === assetId ? { ...asset, captions: null } : asset))
+    );
+  };
+
+  const updateClipAudio = (slot: number, assetId: string, updates: Partial<Pick<VideoAsset, 'volumeDb' | 'muted'>>) => {
+    updateSlot(slot, (assets) =>
+      assets.map((asset) =>
+        asset.id === assetId
+          ? {
+            ...asset,
+            ...updates,
+            volumeDb: clampDb(updates.volumeDb ?? asset.volumeDb),
+          }
+          : asset
+      )
+    );
+  };
+
+  const handleCaptionUpload = (slot: number, assetId: string) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    setDropError(null);
+    await attachCaptions(slot, assetId, file);
+  };
+
+  const importAudioFile = async (file: File) => {
+    const asset = await createAudioAsset(file);
+    addAudioCue(asset);
+    onAddToLibrary(asset);
+  };
+
+  const importOverlayFile = async (file: File) => {
+    const asset: LibraryAsset = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: file.name,
+      url: URL.createObjectURL(file),
+      duration: 0,
       addedAt: Date.now(),
+      kind: 'image',
+    };
+    saveMediaBlob(asset.id, file).catch((error) => {
+      console.warn('[media] Failed to persist asset.', error);
     });
+    selectOverlayFromLibrary(asset);
+    onAddToLibrary(asset);
   };
 
-  const handleFileUpload = (type: 'video1' | 'video2' | 'bgm') => async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
+  const handleFileUpload = (type: DropTarget) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
     if (files.length === 0) {
       return;
     }
 
     setDropError(null);
 
-    if (type === 'bgm') {
-      await importBgmFile(files[0]);
+    if (type === 'audio') {
+      await importAudioFile(files[0]);
+      return;
+    }
+
+    if (type === 'overlay') {
+      if (!isOverlayImageFile(files[0])) {
+        setDropError('Overlays must be PNG or SVG images.');
+        return;
+      }
+      await importOverlayFile(files[0]);
       return;
     }
 
@@ -256,27 +482,36 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     await importVideoFiles(type, videoFiles);
   };
 
-  const getDroppedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.files || []);
+  const getDroppedFiles = (e: React.DragEvent) => Array.from<File>(e.dataTransfer.files || []);
 
   const getDroppedLibraryAssetId = (e: React.DragEvent) => {
     const raw = e.dataTransfer.getData('application/x-heygen-library-asset-id');
     return raw ? raw : null;
   };
 
-  const handleDrop = (target: 'video1' | 'video2' | 'bgm') => async (e: React.DragEvent) => {
+  const handleDrop = (target: DropTarget) => async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragOverTarget(null);
 
-    const libraryAssetId = target === 'bgm' ? getDroppedLibraryAssetId(e) : null;
+    const libraryAssetId = typeof target === 'string' ? getDroppedLibraryAssetId(e) : null;
     if (libraryAssetId) {
       const asset = library.find((item) => item.id === libraryAssetId);
       if (!asset) {
         setDropError('That library asset is no longer available. Please refresh and try again.');
         return;
       }
+      const expectedKind: LibraryAssetKind = target === 'overlay' ? 'image' : 'audio';
+      if (asset.kind !== expectedKind) {
+        setDropError(target === 'overlay' ? 'Only images can be dropped here.' : 'Only audio tracks can be dropped here.');
+        return;
+      }
       setDropError(null);
-      selectFromLibrary(asset);
+      if (target === 'overlay') {
+        selectOverlayFromLibrary(asset);
+      } else {
+        selectFromLibrary(asset);
+      }
       return;
     }
 
@@ -285,7 +520,22 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       return;
     }
 
-    if (target === 'bgm') {
+    if (target === 'overlay') {
+      const imageFiles = files.filter(isOverlayImageFile);
+      if (imageFiles.length === 0) {
+        setDropError('Only PNG or SVG images can be dropped here.');
+        return;
+      }
+      setDropError(imageFiles.length > 1 ? 'Please drop only one image at a time.' : null);
+      try {
+        await importOverlayFile(imageFiles[0]);
+      } catch (error) {
+        setDropError(error instanceof Error ? error.message : 'Unable to import file.');
+      }
+      return;
+    }
+
+    if (target === 'audio') {
       const audioFiles = files.filter((file) => file.type.startsWith('audio/'));
       if (audioFiles.length === 0) {
         setDropError('Only audio files can be dropped here.');
@@ -294,15 +544,9 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       if (audioFiles.length > 1) {
         setDropError('Please drop only one audio file at a time.');
       }
-      if (config.bgm) {
-        const confirmed = window.confirm(`Replace "${config.bgm.name}" with "${audioFiles[0].name}"?`);
-        if (!confirmed) {
-          return;
-        }
-      }
       try {
         setDropError(null);
-        await importBgmFile(audioFiles[0]);
+        await importAudioFile(audioFiles[0]);
       } catch (error) {
         setDropError(error instanceof Error ? error.message : 'Unable to import file.');
       }
@@ -326,13 +570,13 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     }
   };
 
-  const handleDragEnter = (target: 'video1' | 'video2' | 'bgm') => (e: React.DragEvent) => {
+  const handleDragEnter = (target: DropTarget) => (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragOverTarget(target);
   };
 
-  const handleDragOver = (target: 'video1' | 'video2' | 'bgm') => (e: React.DragEvent) => {
+  const handleDragOver = (target: DropTarget) => (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     if (dragOverTarget !== target) {
@@ -340,7 +584,7 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     }
   };
 
-  const handleDragLeave = (target: 'video1' | 'video2' | 'bgm') => (e: React.DragEvent) => {
+  const handleDragLeave = (target: DropTarget) => (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     if (dragOverTarget === target) {
@@ -348,24 +592,11 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     }
   };
 
-  const moveBatchItem = (target: 'video1' | 'video2', index: number, delta: number) => {
+  const moveBatchItem = (slot: number, index: number, delta: number) => {
     if (delta === 0) {
       return;
     }
-    if (target === 'video1') {
-      setBatchVideo1((prev) => {
-        const next = [...prev];
-        const newIndex = index + delta;
-        if (newIndex < 0 || newIndex >= next.length) {
-          return prev;
-        }
-        const [item] = next.splice(index, 1);
-        next.splice(newIndex, 0, item);
-        return next;
-      });
-      return;
-    }
-    setBatchVideo2((prev) => {
+    updateSlot(slot, (prev) => {
       const next = [...prev];
       const newIndex = index + delta;
       if (newIndex < 0 || newIndex >= next.length) {
@@ -377,27 +608,15 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     });
   };
 
-  const removeBatchItem = (target: 'video1' | 'video2', id: string) => {
-    if (target === 'video1') {
-      setBatchVideo1((prev) => prev.filter((item) => item.id !== id));
-      return;
-    }
-    setBatchVideo2((prev) => prev.filter((item) => item.id !== id));
+  const removeBatchItem = (slot: number, id: string) => {
+    updateSlot(slot, (prev) => prev.filter((item) => item.id !== id));
   };
 
-  const clearBatch = (target: 'video1' | 'video2') => {
-    if (target === 'video1') {
-      setBatchVideo1([]);
-      return;
-    }
-    setBatchVideo2([]);
+  const clearBatch = (slot: number) => {
+    updateSlot(slot, () => []);
   };
 
-  const buildBatchPairs = () =>
-    batchVideo1.map((video1, index) => ({
-      video1,
-      video2: batchVideo2[index] ?? null,
-    }));
+  const buildBatchPairs = (strategy: BatchStrategy = batchStrategy) => buildBatchCombos(batchClips, strategy);
 
   const clearAudioTimers = () => {
     if (audioTimers.current.start) {
@@ -439,16 +658,22 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       audioGainRef.current.gain.value = 1;
       audioGainRef.current.connect(context.destination);
     }
+    // The ducking envelope runs on its own node so volume changes never cancel it.
+    if (!duckingGainRef.current) {
+      duckingGainRef.current = context.createGain();
+      duckingGainRef.current.gain.value = 1;
+      duckingGainRef.current.connect(audioGainRef.current);
+    }
     if (!audioSourceRef.current || audioElementRef.current !== audio) {
       if (audioSourceRef.current) {
         audioSourceRef.current.disconnect();
       }
       audioSourceRef.current = context.createMediaElementSource(audio);
-      audioSourceRef.current.connect(audioGainRef.current);
+      audioSourceRef.current.connect(duckingGainRef.current);
       audioElementRef.current = audio;
     }
     audio.volume = 1;
-    return { context, gain: audioGainRef.current };
+    return { context, gain: audioGainRef.current, ducking: duckingGainRef.current };
   };
 
   const setPreviewGain = (gain: number) => {
@@ -467,7 +692,37 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     graph.gain.gain.linearRampToValueAtTime(clamped, now + 0.03);
   };
 
-  const startPreviewAudio = (settings: { delayMs: number; playLength: number; loop: boolean; gain: number }) => {
+  // Same shape as the composition's fade: when the fades overlap, the cue peaks where they cross.
+  const scheduleCueFades = (
+    param: AudioParam,
+    startAt: number,
+    settings: { playLength: number; gain: number; fadeIn: number; fadeOut: number }
+  ) => {
+    const { playLength, fadeIn, fadeOut } = settings;
+    const peakAt = fadeIn + fadeOut > playLength ? (playLength * fadeIn) / (fadeIn + fadeOut) : fadeIn;
+    const peakLevel = Math.min(
+      fadeIn > 0 ? peakAt / fadeIn : 1,
+      fadeOut > 0 ? (playLength - peakAt) / fadeOut : 1
+    );
+    const peak = Math.max(0, settings.gain) * Math.min(1, peakLevel);
+    param.setValueAtTime(fadeIn > 0 ? 0 : peak, startAt);
+    if (fadeIn > 0) {
+      param.linearRampToValueAtTime(peak, startAt + peakAt);
+    }
+    if (fadeOut > 0) {
+      param.setValueAtTime(peak, startAt + Math.max(peakAt, playLength - fadeOut));
+      param.linearRampToValueAtTime(0, startAt + playLength);
+    }
+  };
+
+  const startPreviewAudio = (settings: {
+    delayMs: number;
+    playLength: number;
+    loop: boolean;
+    gain: number;
+    fadeIn: number;
+    fadeOut: number;
+  }) => {
     const audio = audioRef.current;
     if (!audio) {
       return;
@@ -475,7 +730,13 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     stopPreviewAudio();
     const targetGain = Math.max(0, settings.gain);
     const shouldDelay = settings.delayMs > 0;
-    if (shouldDelay) {
+    const graph = settings.fadeIn > 0 || settings.fadeOut > 0 ? ensureAudioGraph() : null;
+    if (graph) {
+      const now = graph.context.currentTime;
+      graph.gain.gain.cancelScheduledValues(now);
+      graph.gain.gain.setValueAtTime(0, now);
+      scheduleCueFades(graph.gain.gain, now + settings.delayMs / 1000, settings);
+    } else if (shouldDelay) {
       setPreviewGain(0);
     } else {
       setPreviewGain(targetGain);
@@ -487,7 +748,7 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       audio.play().catch(() => {
         // Browser may block autoplay; user interaction will retry on next change.
       });
-      if (shouldDelay) {
+      if (shouldDelay && !graph) {
         audioTimers.current.start = window.setTimeout(() => {
           setPreviewGain(targetGain);
         }, settings.delayMs);
@@ -504,93 +765,268 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     start();
   };
 
-  const updateBgm = (updates: Partial<BGMAsset>) => {
+  const updateTransition = (updates: Partial<TransitionSettings>) => {
+    setConfig((prev) => ({
+      ...prev,
+      transition: { ...prev.transition, ...updates },
+    }));
+  };
+
+  const updateCaptionStyle = (updates: Partial<CaptionStyle>) => {
+    setConfig((prev) => ({
+      ...prev,
+      captionStyle: { ...prev.captionStyle, ...updates },
+    }));
+  };
+
+  const updateOverlay = (updates: Partial<OverlayAsset>) => {
+    setConfig((prev) => (prev.overlay ? { ...prev, overlay: { ...prev.overlay, ...updates } } : prev));
+  };
+
+  const addOutputProfile = () => {
     setConfig((prev) => {
-      if (!prev.bgm) {
-        return prev;
-      }
-      const next = { ...prev.bgm, ...updates };
-      if (typeof updates.volumeDb === 'number') {
-        next.volumeDb = clampDb(updates.volumeDb);
-      }
-      return {
-        ...prev,
-        bgm: next,
-      };
+      const used = new Set(prev.outputs.map(getOutputProfileId));
+      const next = QUALITY_OPTIONS.flatMap((quality) =>
+        FORMAT_OPTIONS.map((item) => ({ quality, format: item.value }))
+      ).find((profile) => !used.has(getOutputProfileId(profile)));
+      return next && prev.outputs.length < MAX_OUTPUT_PROFILES ? { ...prev, outputs: [...prev.outputs, next] } : prev;
     });
   };
 
-  const handleBgmModeChange = (mode: BGMMode) => {
-    if (!config.bgm) {
+  const updateOutputProfile = (index: number, updates: Partial<OutputProfile>) => {
+    setConfig((prev) => ({
+      ...prev,
+      outputs: prev.outputs.map((profile, position) => (position === index ? { ...profile, ...updates } : profile)),
+    }));
+  };
+
+  const removeOutputProfile = (index: number) => {
+    setConfig((prev) =>
+      prev.outputs.length > 1 ? { ...prev, outputs: prev.outputs.filter((_, position) => position !== index) } : prev
+    );
+  };
+
+  const addTextLayer = () => {
+    setConfig((prev) =>
+      prev.textLayers.length >= MAX_TEXT_LAYERS
+        ? prev
+        : { ...prev, textLayers: [...prev.textLayers, createTextLayer(Math.min(1, batchClips.length - 1))] }
+    );
+  };
+
+  const updateTextLayer = (id: string, updates: Partial<TextLayer>) => {
+    setConfig((prev) => ({
+      ...prev,
+      textLayers: prev.textLayers.map((layer) => (layer.id === id ? { ...layer, ...updates } : layer)),
+    }));
+  };
+
+  const removeTextLayer = (id: string) => {
+    setConfig((prev) => ({ ...prev, textLayers: prev.textLayers.filter((layer) => layer.id !== id) }));
+  };
+
+  const updateFieldValue = (key: string, field: string, value: string) => {
+    setFieldValues((prev) => ({ ...prev, [key]: { ...prev[key], [field]: value } }));
+  };
+
+  const getItemFields = (clips: VideoAsset[], key = '') => {
+    const clipLabel = (clips[0]?.name || '').replace(/\.[^/.]+$/, '');
+    return { clip: clipLabel, ...fieldValues[key] };
+  };
+
+  const updateActiveCue = (updates: Partial<AudioCue>) => {
+    if (!activeCue) {
+      return;
+    }
+    setConfig((prev) => ({
+      ...prev,
+      audioCues: prev.audioCues.map((cue) => {
+        if (cue.cueId !== activeCue.cueId) {
+          return cue;
+        }
+        const next = { ...cue, ...updates };
+        if (typeof updates.volumeDb === 'number') {
+          next.volumeDb = clampDb(updates.volumeDb);
+        }
+        return next;
+      }),
+    }));
+  };
+
+  const updateDucking = (updates: Partial<DuckingSettings>) => {
+    if (activeCue) {
+      updateActiveCue({ ducking: { ...activeCue.ducking, ...updates } });
+    }
+  };
+
+  const updateActiveCueModes = (updates: Partial<CueTimingModes>) => {
+    if (activeCue) {
+      setCueModes((prev) => ({ ...prev, [activeCue.cueId]: { ...activeCueModes, ...updates } }));
+    }
+  };
+
+  const handleCueAnchorChange = (anchorClip: number | null) => {
+    if (!activeCue) {
       return;
     }
-    const targetDuration = getClipDuration(mode, config.video1, config.video2) || 0;
-    const clamped = clampBgmToTarget({ ...config.bgm, mode }, targetDuration);
-    updateBgm(clamped);
+    const targetDuration = getClipDuration(anchorClip, config.clips) || 0;
+    const clamped = clampCueToTarget({ ...activeCue, anchorClip }, targetDuration);
+    updateActiveCue(clamped);
   };
 
-  const handleBgmLengthModeChange = (mode: 'full' | 'custom') => {
-    if (!config.bgm) {
+  const handleCueLengthModeChange = (mode: 'full' | 'custom') => {
+    if (!activeCue) {
       return;
     }
-    setBgmLengthMode(mode);
+    updateActiveCueModes({ length: mode });
     if (mode === 'full') {
-      const targetDuration = getBgmTargetDuration();
-      const clamped = clampBgmToTarget({ ...config.bgm, playLength: config.bgm.duration || config.bgm.playLength }, targetDuration);
-      updateBgm(clamped);
+      const targetDuration = getCueTargetDuration(activeCue);
+      const clamped = clampCueToTarget({ ...activeCue, playLength: activeCue.duration || activeCue.playLength }, targetDuration);
+      updateActiveCue(clamped);
     }
   };
 
-  const handleBgmStartModeChange = (mode: 'beginning' | 'end' | 'custom') => {
-    if (!config.bgm) {
+  const handleCueStartModeChange = (mode: 'beginning' | 'end' | 'custom') => {
+    if (!activeCue) {
       return;
     }
-    setBgmStartMode(mode);
-    const targetDuration = getBgmTargetDuration();
+    updateActiveCueModes({ start: mode });
+    const targetDuration = getCueTargetDuration(activeCue);
     if (mode === 'beginning') {
-      updateBgm({ startTime: 0 });
+      updateActiveCue({ startTime: 0 });
       return;
     }
     if (mode === 'end') {
-      const playLength = Math.min(config.bgm.playLength, targetDuration);
-      updateBgm({ startTime: Math.max(0, targetDuration - playLength) });
+      const playLength = Math.min(activeCue.playLength, targetDuration);
+      updateActiveCue({ startTime: Math.max(0, targetDuration - playLength) });
+      return;
+    }
+  };
+
+  const handleCueLengthChange = (value: number) => {
+    if (!activeCue) {
+      return;
+    }
+    updateActiveCueModes({ length: 'custom' });
+    const targetDuration = getCueTargetDuration(activeCue);
+    const clamped = clampCueToTarget({ ...activeCue, playLength: value }, targetDuration);
+    updateActiveCue(clamped);
+  };
+
+  const handleCueStartChange = (value: number) => {
+    if (!activeCue) {
       return;
     }
+    updateActiveCueModes({ start: 'custom' });
+    const targetDuration = getCueTargetDuration(activeCue);
+    const clamped = clampCueToTarget({ ...activeCue, startTime: value }, targetDuration);
+    updateActiveCue(clamped);
   };
 
-  const handleBgmLengthChange = (value: number) => {
-    if (!config.bgm) {
+  const handleCueLoopToggle = () => {
+    if (!activeCue) {
+      return;
+    }
+    if (activeCue.duration > 0 && activeCue.playLength > activeCue.duration) {
       return;
     }
-    setBgmLengthMode('custom');
-    const targetDuration = getBgmTargetDuration();
-    const clamped = clampBgmToTarget({ ...config.bgm, playLength: value }, targetDuration);
-    updateBgm(clamped);
+    const shouldEnable = !activeCue.loop;
+    updateActiveCue({ loop: shouldEnable });
+  };
+
+  const getDefaultItemName = (clips: VideoAsset[], index: number) => {
+    const baseName = config.name.trim() || `Composition_${new Date().toLocaleTimeString()}`;
+    // Every source clip goes into the name so cross-product variants stay distinguishable.
+    const labels = clips.map((clip) => clip.name.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 24));
+    return `${baseName}_${index + 1}_${labels.join('__') || `clip_${index + 1}`}`;
+  };
+
+  const buildQueueItem = (
+    clips: VideoAsset[],
+    name: string,
+    cueSources: AudioCue[],
+    overrides: Partial<ProjectConfig> = {},
+    fieldKey = ''
+  ): ProjectConfig => {
+    const audioCues = cueSources.map((cue) => clampCueToTarget({ ...cue }, getClipDuration(cue.anchorClip, clips)));
+    return {
+      ...config,
+      id: '',
+      name,
+      clips,
+      textFields: getItemFields(clips, fieldKey),
+      audioCues,
+      ...overrides,
+      outputs: dedupeOutputProfiles(overrides.outputs ?? config.outputs),
+    };
   };
 
-  const handleBgmStartChange = (value: number) => {
-    if (!config.bgm) {
+  const handleManifestUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
       return;
     }
-    setBgmStartMode('custom');
-    const targetDuration = getBgmTargetDuration();
-    const clamped = clampBgmToTarget({ ...config.bgm, startTime: value }, targetDuration);
-    updateBgm(clamped);
+    try {
+      const entries = parseManifest(file.name, await file.text());
+      const videos = batchClips
+        .flat()
+        .filter((asset, index, all) => all.findIndex((item) => item.id === asset.id) === index);
+      const rows = resolveManifestRows(entries, videos, library.filter((asset) => asset.kind === 'audio'));
+      setManifestReport({ fileName: file.name, rows });
+    } catch (error) {
+      setManifestReport({
+        fileName: file.name,
+        rows: [],
+        error: error instanceof Error ? error.message : 'Unable to read manifest.',
+      });
+    }
   };
 
-  const handleBgmLoopToggle = () => {
-    if (!config.bgm) {
+  const queueManifestRows = () => {
+    if (!manifestReport) {
       return;
     }
-    if (config.bgm.duration > 0 && config.bgm.playLength > config.bgm.duration) {
+    const validRows = manifestReport.rows.filter((row) => row.errors.length === 0);
+    if (validRows.length === 0) {
       return;
     }
-    const shouldEnable = !config.bgm.loop;
-    updateBgm({ loop: shouldEnable });
+    const items = validRows.map((row) => {
+      // A manifest track swaps the first cue's audio and keeps its placement; with no cues it plays under everything.
+      const cueSources = row.bgm
+        ? config.audioCues.length > 0
+          ? [
+            { ...config.audioCues[0], id: row.bgm.id, name: row.bgm.name, url: row.bgm.url, duration: row.bgm.duration },
+            ...config.audioCues.slice(1),
+          ]
+          : [createAudioCue(row.bgm)]
+        : config.audioCues;
+      const name = row.name
+        ? row.name.replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 80)
+        : getDefaultItemName(row.clips, row.row - 1);
+      // A quality or format column pins the row to that single profile.
+      const outputs =
+        row.exportQuality || row.outputFormat
+          ? [
+            {
+              quality: row.exportQuality ?? config.outputs[0].quality,
+              format: row.outputFormat ?? config.outputs[0].format,
+              loudnessTarget: config.outputs[0].loudnessTarget,
+            },
+          ]
+          : config.outputs;
+      return buildQueueItem(row.clips, name, cueSources, {
+        outputs,
+        frameFit: row.frameFit ?? config.frameFit,
+        textFields: { ...getItemFields(row.clips), ...row.fields },
+      });
+    });
+    onEnqueue(items);
+    setManifestReport(null);
   };
 
   const handleAdd = () => {
-    if (batchVideo1.length === 0) {
+    if ((batchClips[0] ?? []).length === 0) {
       alert('Validation: Clip 1 is required for batch generation.');
       return;
     }
@@ -599,35 +1035,28 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       return;
     }
 
-    const baseName = config.name.trim() || `Composition_${new Date().toLocaleTimeString()}`;
-    const items = pairs.map((pair, index) => {
-      const rawLabel = pair.video1?.name || pair.video2?.name || `clip_${index + 1}`;
-      const label = rawLabel.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 40);
-      const targetDuration = config.bgm ? getClipDuration(config.bgm.mode, pair.video1, pair.video2) : 0;
-      const bgm = config.bgm ? clampBgmToTarget({ ...config.bgm }, targetDuration) : null;
-      return {
-        ...config,
-        id: '',
-        name: `${baseName}_${index + 1}_${label}`,
-        video1: pair.video1,
-        video2: pair.video2,
-        bgm,
-      };
-    });
+    const items = pairs.map((pair, index) =>
+      buildQueueItem(pair.clips, getDefaultItemName(pair.clips, index), config.audioCues, {}, pair.key)
+    );
 
     onEnqueue(items);
     setConfig({
       id: '',
       name: `Composition_${new Date().toLocaleTimeString()}`,
-      video1: null,
-      video2: null,
-      bgm: null,
-      exportQuality: '720p',
+      clips: [],
+      audioCues: [],
+      transition: { ...DEFAULT_TRANSITION },
+      captionStyle: config.captionStyle,
+      overlay: config.overlay,
+      textLayers: config.textLayers,
+      textFields: {},
+      outputs: config.outputs,
+      frameFit: config.frameFit,
       status: 'PENDING',
       progress: 0
     });
-    setBatchVideo1([]);
-    setBatchVideo2([]);
+    setBatchClips((prev) => prev.map(() => []));
+    setFieldValues({});
   };
 
   const handlePreviewClick = () => {
@@ -647,11 +1076,13 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
         playLength: previewAudioSettings.playLength,
         loop: previewAudioSettings.loop,
         gain: previewAudioSettings.gain,
+        fadeIn: previewAudioSettings.fadeIn,
+        fadeOut: previewAudioSettings.fadeOut,
       });
     }
     const video = videoRef.current;
     if (video) {
-      video.muted = false;
+      video.muted = Boolean(previewClip?.muted);
       video.currentTime = 0;
       video.play().catch(() => {
         // ignore autoplay restrictions
@@ -659,84 +1090,149 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     }
   };
 
-  const bgmTargetDuration = config.bgm ? getBgmTargetDuration() : 0;
-  const bgmDuration = config.bgm?.duration || 0;
-  const bgmAutoLoop = config.bgm ? bgmDuration > 0 && config.bgm.playLength > bgmDuration : false;
-  const bgmLoopActive = config.bgm ? config.bgm.loop || bgmAutoLoop : false;
-  const bgmLoopLocked = bgmAutoLoop;
-  const bgmPlayLengthMax = Math.max(1, Math.round(bgmTargetDuration || 0));
-  const bgmStartTimeMax = Math.max(0, Math.round((bgmTargetDuration || 0) - (config.bgm?.playLength || 0)));
-  const bgmStartTime = config.bgm?.startTime || 0;
+  const cueTargetDuration = activeCue ? getCueTargetDuration(activeCue) : 0;
+  const cueDuration = activeCue?.duration || 0;
+  const cueAutoLoop = activeCue ? cueDuration > 0 && activeCue.playLength > cueDuration : false;
+  const cueLoopActive = activeCue ? isCueLooping(activeCue) : false;
+  const cueLoopLocked = cueAutoLoop;
+  const cuePlayLengthMax = Math.max(1, Math.round(cueTargetDuration || 0));
+  const cueStartTimeMax = Math.max(0, Math.round((cueTargetDuration || 0) - (activeCue?.playLength || 0)));
+  const cueStartTime = activeCue?.startTime || 0;
   const batchPairs = buildBatchPairs();
-  const ignoredClip2Count = Math.max(0, batchVideo2.length - batchVideo1.length);
+  const captionedClipCount = batchClips.reduce(
+    (count, slotAssets) => count + slotAssets.filter((asset) => Boolean(asset.captions)).length,
+    0
+  );
+  const ignoredClipCount = countUnusedClips(batchClips, batchPairs);
+  const strategyCounts = Object.fromEntries(
+    BATCH_STRATEGIES.map((item) => [item.value, buildBatchPairs(item.value).length])
+  ) as Record<BatchStrategy, number>;
+  const manifestValidCount = manifestReport ? manifestReport.rows.filter((row) => row.errors.length === 0).length : 0;
   const batchQueueLabel =
     batchPairs.length > 0
       ? `Queue ${batchPairs.length} Item${batchPairs.length > 1 ? 's' : ''}`
       : 'Queue Items';
-  const clip2Available = Boolean(previewVideo2);
-  const bgmModeOptions = [
-    { value: BGMMode.VIDEO1_ONLY, label: 'Clip 1', disabled: false },
-    { value: BGMMode.VIDEO2_ONLY, label: 'Clip 2', disabled: !clip2Available },
-    { value: BGMMode.FULL, label: 'Both', disabled: false },
-  ] as const;
-  const previewClipType: 'video1' | 'video2' | null = (() => {
-    if (config.bgm?.mode === BGMMode.VIDEO2_ONLY && previewVideo2) {
-      return 'video2';
-    }
-    if (
-      config.bgm?.mode === BGMMode.FULL &&
-      previewVideo1 &&
-      previewVideo2 &&
-      config.bgm.startTime >= (previewVideo1.duration || 0)
-    ) {
-      return 'video2';
-    }
-    if (previewVideo1) {
-      return 'video1';
-    }
-    if (previewVideo2) {
-      return 'video2';
-    }
-    return null;
+  const cueAnchorOptions = [
+    { value: null, label: formatCueAnchor(null), disabled: false },
+    ...batchClips.map((_, slot) => ({ value: slot, label: formatCueAnchor(slot), disabled: slot >= Math.max(1, previewClips.length) })),
+  ];
+  const previewTimeline = getSequenceTimeline(previewClips);
+  const previewClipIndex: number | null = (() => {
+    if (previewClips.length === 0) {
+      return null;
+    }
+    if (activeCue && activeCue.anchorClip !== null) {
+      return previewClips[activeCue.anchorClip] ? activeCue.anchorClip : 0;
+    }
+    if (activeCue) {
+      const startFrame = activeCue.startTime * TIMELINE_FPS;
+      const nextIndex = previewTimeline.starts.findIndex((start) => start > startFrame);
+      return nextIndex === -1 ? previewClips.length - 1 : Math.max(0, nextIndex - 1);
+    }
+    return 0;
   })();
-  const previewClip = previewClipType === 'video2' ? previewVideo2 : previewClipType === 'video1' ? previewVideo1 : null;
+  const previewClip = previewClipIndex === null ? null : previewClips[previewClipIndex];
+  const previewClipOffset = (previewTimeline.starts[previewClipIndex ?? 0] ?? 0) / TIMELINE_FPS;
+  const transitionActive = config.transition.type !== TransitionType.NONE;
+  const audioLibrary = library.filter((asset) => asset.kind === 'audio');
+  const imageLibrary = library.filter((asset) => asset.kind === 'image');
+  const overlayPlacement = config.overlay ? getOverlayPlacement(config.overlay.corner) : null;
+  const templateFields = getTemplateFields(config.textLayers).filter((field) => !BUILT_IN_TEXT_FIELDS.includes(field));
+  const pairingColumns = batchClips.length + templateFields.length;
+  const previewFields = getItemFields(batchPairs[0]?.clips ?? [], batchPairs[0]?.key);
+  const previewTextUnit = (size: number) => `${size / 10.8}cqmin`;
+  const previewTextLayers = config.textLayers.filter((layer) => layer.anchorClip === previewClipIndex);
+  const previewAspect = FORMAT_OPTIONS.find((item) => item.value === config.outputs[0].format)?.aspect ?? '16 / 9';
   const previewClipDuration = previewClip?.duration || 0;
-  const previewLabel = previewClipType === 'video2' ? 'Clip 2' : 'Clip 1';
+  const previewLabel = `Clip ${(previewClipIndex ?? 0) + 1}`;
 
   const previewAudioSettings = (() => {
-    if (!config.bgm || !previewClip || !config.bgm.url) {
-      return null;
-    }
-    if (config.bgm.mode === BGMMode.VIDEO1_ONLY && previewClipType !== 'video1') {
+    if (!activeCue || !previewClip || !activeCue.url) {
       return null;
     }
-    if (config.bgm.mode === BGMMode.VIDEO2_ONLY && previewClipType !== 'video2') {
+    if (activeCue.anchorClip !== null && activeCue.anchorClip !== previewClipIndex) {
       return null;
     }
-    let startTime = config.bgm.startTime || 0;
-    if (config.bgm.mode === BGMMode.FULL && previewClipType === 'video2' && previewVideo1) {
-      startTime = Math.max(0, startTime - (previewVideo1.duration || 0));
+    let startTime = activeCue.startTime || 0;
+    if (activeCue.anchorClip === null) {
+      startTime = Math.max(0, startTime - previewClipOffset);
     }
     const maxPlay = Math.max(0, previewClipDuration - startTime);
-    const playLength = Math.min(config.bgm.playLength, maxPlay);
+    const playLength = Math.min(activeCue.playLength, maxPlay);
     if (playLength <= 0) {
       return null;
     }
     return {
       delayMs: startTime * 1000,
       playLength,
-      loop: bgmLoopActive,
-      gain: dbToGain(config.bgm.volumeDb),
+      loop: cueLoopActive,
+      gain: dbToGain(activeCue.volumeDb),
+      fadeIn: activeCue.fadeIn,
+      fadeOut: activeCue.fadeOut,
     };
   })();
+  const cueDucking = activeCue?.ducking ?? DEFAULT_DUCKING;
+  const previewClipUrl = previewClip?.url || null;
+  // Like the render, a muted clip has no speech to duck under.
+  const previewClipMuted = Boolean(previewClip?.muted);
+  const previewSpeechPending =
+    cueDucking.enabled && !previewClipMuted && Boolean(previewClipUrl) && previewSpeech?.url !== previewClipUrl;
+  const previewDuckingEnvelope = useMemo(
+    () =>
+      previewAudioSettings && !previewClipMuted && previewSpeech && previewSpeech.url === previewClipUrl
+        ? buildDuckingEnvelope(previewSpeech.regions, cueDucking)
+        : [],
+    [Boolean(previewAudioSettings), previewClipMuted, previewSpeech, previewClipUrl, cueDucking]
+  );
+
+  useEffect(() => {
+    if (!cueDucking.enabled || previewClipMuted || !previewClipUrl || previewSpeech?.url === previewClipUrl) {
+      return;
+    }
+    let cancelled = false;
+    analyzeSpeech(previewClipUrl)
+      .catch(() => [])
+      .then((regions) => {
+        if (!cancelled) {
+          setPreviewSpeech({ url: previewClipUrl, regions });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [cueDucking.enabled, previewClipMuted, previewClipUrl]);
+
+  // Follows the preview video's clock: laid out again on play, seek and loop, held while paused.
+  const syncPreviewDucking = () => {
+    const context = audioContextRef.current;
+    const ducking = duckingGainRef.current;
+    if (!context || !ducking) {
+      return;
+    }
+    const video = videoRef.current;
+    const now = context.currentTime;
+    if (!video || video.paused) {
+      ducking.gain.cancelScheduledValues(now);
+      ducking.gain.setValueAtTime(ducking.gain.value, now);
+      return;
+    }
+    scheduleDuckingEnvelope(ducking.gain, previewDuckingEnvelope, now, video.currentTime);
+  };
+
+  useEffect(() => {
+    syncPreviewDucking();
+  }, [previewDuckingEnvelope, audioUnlocked]);
+
   const previewAudioActive = audioUnlocked && Boolean(previewAudioSettings);
   const previewDelayMs = previewAudioSettings?.delayMs ?? 0;
   const previewPlayLength = previewAudioSettings?.playLength ?? 0;
   const previewLoop = previewAudioSettings?.loop ?? false;
   const previewGain = previewAudioSettings?.gain ?? 0;
+  const previewFadeIn = previewAudioSettings?.fadeIn ?? 0;
+  const previewFadeOut = previewAudioSettings?.fadeOut ?? 0;
 
   useEffect(() => {
-    if (!audioUnlocked || !previewAudioActive || !config.bgm?.url) {
+    if (!audioUnlocked || !previewAudioActive || !activeCue?.url) {
       stopPreviewAudio();
       return;
     }
@@ -749,6 +1245,8 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
       playLength: previewPlayLength,
       loop: previewLoop,
       gain: previewGain,
+      fadeIn: previewFadeIn,
+      fadeOut: previewFadeOut,
     });
     return () => {
       stopPreviewAudio();
@@ -760,9 +1258,21 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     previewPlayLength,
     previewLoop,
     previewGain,
-    config.bgm?.url,
+    previewFadeIn,
+    previewFadeOut,
+    activeCue?.url,
   ]);
 
+  // The element caps volume at 1, so boosts above 0 dB are only heard in the render.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !previewClip) {
+      return;
+    }
+    video.muted = !audioUnlocked || previewClip.muted;
+    video.volume = Math.min(1, dbToGain(previewClip.volumeDb));
+  }, [audioUnlocked, previewClip?.id, previewClip?.muted, previewClip?.volumeDb]);
+
   useEffect(() => {
     if (!audioUnlocked) {
       return;
@@ -771,7 +1281,7 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
     if (!video) {
       return;
     }
-    video.muted = false;
+    video.muted = Boolean(previewClip?.muted);
     video.currentTime = 0;
     video.play().catch(() => {
       // ignore autoplay restrictions
@@ -801,6 +1311,13 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
             />
             <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Composition Label</p>
           </div>
+          <label
+            title="CSV or JSON with clip1, clip2, …, bgm, name, quality, format, fit columns"
+            className="flex items-center gap-2 px-5 py-4 rounded-2xl font-bold text-sm bg-white border border-slate-200 text-slate-700 shadow-sm hover:bg-slate-50 cursor-pointer transition-all"
+          >
+            <input type="file" accept={MANIFEST_FILE_ACCEPT} onChange={handleManifestUpload} className="hidden" />
+            Import Manifest
+          </label>
           <button
             onClick={handleAdd}
             className="group flex items-center gap-3 px-8 py-4 rounded-2xl font-bold shadow-xl transition-all active:scale-95 bg-blue-600 text-white hover:bg-blue-700 shadow-blue-100 border-b-4 border-blue-800"
@@ -817,159 +1334,146 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
               <div className="w-1.5 h-4 bg-blue-600 rounded-full"></div> Asset Configuration
             </h2>
             <div className="space-y-4">
-              <div className="space-y-2">
-                <label className="text-[10px] font-black text-slate-500 uppercase">1. Intro Clip</label>
-                <div
-                  onDragEnter={handleDragEnter('video1')}
-                  onDragOver={handleDragOver('video1')}
-                  onDragLeave={handleDragLeave('video1')}
-                  onDrop={handleDrop('video1')}
-                  className={`relative border-2 border-dashed rounded-2xl p-4 transition-all ${
-                    dragOverTarget === 'video1'
-                      ? 'border-blue-600 bg-blue-50/50'
-                      : batchVideo1.length > 0
-                        ? 'border-blue-500 bg-blue-50/30'
-                        : 'border-slate-200 hover:bg-slate-50'
-                  }`}
-                >
-                  {batchVideo1.length > 0 ? (
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-500">
-                          <ICONS.Video className="w-3 h-3 text-blue-500" />
-                          {batchVideo1.length} clip{batchVideo1.length > 1 ? 's' : ''} loaded
+              {batchClips.map((slotAssets, slot) => (
+                <div key={slot} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] font-black text-slate-500 uppercase">
+                      {slot + 1}. {getSlotLabel(slot)}
+                    </label>
+                    {slot >= 2 && (
+                      <button
+                        onClick={() => removeClipSlot(slot)}
+                        className="text-[9px] font-black text-red-400 hover:text-red-600 uppercase tracking-widest"
+                      >
+                        Remove Slot
+                      </button>
+                    )}
+                  </div>
+                  <div
+                    onDragEnter={handleDragEnter(slot)}
+                    onDragOver={handleDragOver(slot)}
+                    onDragLeave={handleDragLeave(slot)}
+                    onDrop={handleDrop(slot)}
+                    className={`relative border-2 border-dashed rounded-2xl p-4 transition-all ${
+                      dragOverTarget === slot
+                        ? 'border-blue-600 bg-blue-50/50'
+                        : slotAssets.length > 0
+                          ? 'border-blue-500 bg-blue-50/30'
+                          : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    {slotAssets.length > 0 ? (
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-500">
+                            <ICONS.Video className="w-3 h-3 text-blue-500" />
+                            {slotAssets.length} clip{slotAssets.length > 1 ? 's' : ''} loaded
+                          </div>
+                          <button
+                            onClick={() => clearBatch(slot)}
+                            className="text-[10px] font-black text-red-400 hover:text-red-600 transition-colors"
+                          >
+                            Clear
+                          </button>
                         </div>
-                        <button
-                          onClick={() => clearBatch('video1')}
-                          className="text-[10px] font-black text-red-400 hover:text-red-600 transition-colors"
-                        >
-                          Clear
-                        </button>
-                      </div>
-                      <div className="max-h-28 overflow-y-auto space-y-1 pr-1">
-                        {batchVideo1.map((asset, index) => (
-                          <div key={asset.id} className="flex items-center justify-between gap-2">
-                            <span className="text-[10px] font-bold text-slate-700 truncate">
-                              {index + 1}. {asset.name}
-                            </span>
-                            <div className="flex items-center gap-1">
-                              <button
-                                onClick={() => moveBatchItem('video1', index, -1)}
-                                disabled={index === 0}
-                                className="text-[9px] font-black text-slate-300 hover:text-slate-500 disabled:opacity-40"
-                              >
-                                Up
-                              </button>
-                              <button
-                                onClick={() => moveBatchItem('video1', index, 1)}
-                                disabled={index === batchVideo1.length - 1}
-                                className="text-[9px] font-black text-slate-300 hover:text-slate-500 disabled:opacity-40"
-                              >
-                                Down
-                              </button>
-                              <button
-                                onClick={() => removeBatchItem('video1', asset.id)}
-                                className="text-[9px] font-black text-red-400 hover:text-red-600"
-                              >
-                                Remove
-                              </button>
+                        <div className="max-h-28 overflow-y-auto space-y-1 pr-1">
+                          {slotAssets.map((asset, index) => (
+                            <div key={asset.id} className="flex items-center justify-between gap-2">
+                              <span className="text-[10px] font-bold text-slate-700 truncate">
+                                {index + 1}. {asset.name}
+                              </span>
+                              <div className="flex items-center gap-1">
+                                {asset.captions ? (
+                                  <button
+                                    onClick={() => detachCaptions(slot, asset.id)}
+                                    title={`Captions: ${asset.captions.name} (click to remove)`}
+                                    className="text-[9px] font-black text-blue-600 hover:text-red-500"
+                                  >
+                                    CC
+                                  </button>
+                                ) : (
+                                  <label
+                                    title="Attach .srt / .vtt captions or a .txt transcript"
+                                    className="text-[9px] font-black text-slate-300 hover:text-blue-600 cursor-pointer"
+                                  >
+                                    <input
+                                      type="file"
+                                      accept={CAPTION_FILE_ACCEPT}
+                                      onChange={handleCaptionUpload(slot, asset.id)}
+                                      className="hidden"
+                                    />
+                                    +CC
+                                  </label>
+                                )}
+                                <input
+                                  type="number"
+                                  min={MIN_DB}
+                                  max={MAX_DB}
+                                  step={1}
+                                  value={asset.volumeDb}
+                                  disabled={asset.muted}
+                                  onChange={(e) => updateClipAudio(slot, asset.id, { volumeDb: parseFloat(e.target.value) || 0 })}
+                                  title="Clip audio gain (dB)"
+                                  className="w-10 px-1 rounded border border-slate-200 text-[9px] font-black text-slate-500 bg-white disabled:opacity-40"
+                                />
+                                <button
+                                  onClick={() => updateClipAudio(slot, asset.id, { muted: !asset.muted })}
+                                  title={asset.muted ? 'Clip audio muted (click to unmute)' : "Mute this clip's own audio"}
+                                  className={`text-[9px] font-black ${
+                                    asset.muted ? 'text-red-500 hover:text-red-600' : 'text-slate-300 hover:text-slate-500'
+                                  }`}
+                                >
+                                  {asset.muted ? 'Muted' : 'Mute'}
+                                </button>
+                                <button
+                                  onClick={() => moveBatchItem(slot, index, -1)}
+                                  disabled={index === 0}
+                                  className="text-[9px] font-black text-slate-300 hover:text-slate-500 disabled:opacity-40"
+                                >
+                                  Up
+                                </button>
+                                <button
+                                  onClick={() => moveBatchItem(slot, index, 1)}
+                                  disabled={index === slotAssets.length - 1}
+                                  className="text-[9px] font-black text-slate-300 hover:text-slate-500 disabled:opacity-40"
+                                >
+                                  Down
+                                </button>
+                                <button
+                                  onClick={() => removeBatchItem(slot, asset.id)}
+                                  className="text-[9px] font-black text-red-400 hover:text-red-600"
+                                >
+                                  Remove
+                                </button>
+                              </div>
                             </div>
-                          </div>
-                        ))}
+                          ))}
+                        </div>
+                        <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
+                          <input type="file" accept="video/*" multiple onChange={handleFileUpload(slot)} className="hidden" />
+                          <ICONS.Download className="w-4 h-4 text-slate-200" />
+                          Add more clips
+                        </label>
                       </div>
-                      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
-                        <input type="file" accept="video/*" multiple onChange={handleFileUpload('video1')} className="hidden" />
-                        <ICONS.Download className="w-4 h-4 text-slate-200" />
-                        Add more clips
+                    ) : (
+                      <label className="flex flex-col items-center py-4 cursor-pointer">
+                        <input type="file" accept="video/*" multiple onChange={handleFileUpload(slot)} className="hidden" />
+                        <ICONS.Download className="w-5 h-5 text-slate-200 mb-1" />
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{getSlotPickerLabel(slot)}</span>
+                        <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest mt-1">or drop multiple videos</span>
                       </label>
-                    </div>
-                  ) : (
-                    <label className="flex flex-col items-center py-4 cursor-pointer">
-                      <input type="file" accept="video/*" multiple onChange={handleFileUpload('video1')} className="hidden" />
-                      <ICONS.Download className="w-5 h-5 text-slate-200 mb-1" />
-                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Select Intro Clips</span>
-                      <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest mt-1">or drop multiple videos</span>
-                    </label>
-                  )}
+                    )}
+                  </div>
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <label className="text-[10px] font-black text-slate-500 uppercase">2. Body Clip (Optional)</label>
-                <div
-                  onDragEnter={handleDragEnter('video2')}
-                  onDragOver={handleDragOver('video2')}
-                  onDragLeave={handleDragLeave('video2')}
-                  onDrop={handleDrop('video2')}
-                  className={`relative border-2 border-dashed rounded-2xl p-4 transition-all ${
-                    dragOverTarget === 'video2'
-                      ? 'border-blue-600 bg-blue-50/50'
-                      : batchVideo2.length > 0
-                        ? 'border-blue-500 bg-blue-50/30'
-                        : 'border-slate-200 hover:bg-slate-50'
-                  }`}
+              ))}
+              {batchClips.length < MAX_CLIP_SLOTS && (
+                <button
+                  onClick={addClipSlot}
+                  className="w-full px-4 py-3 rounded-2xl border border-dashed border-slate-200 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:border-blue-200 hover:text-blue-600 transition-all"
                 >
-                  {batchVideo2.length > 0 ? (
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2 text-[10px] font-black uppercase text-slate-500">
-                          <ICONS.Video className="w-3 h-3 text-blue-500" />
-                          {batchVideo2.length} clip{batchVideo2.length > 1 ? 's' : ''} loaded
-                        </div>
-                        <button
-                          onClick={() => clearBatch('video2')}
-                          className="text-[10px] font-black text-red-400 hover:text-red-600 transition-colors"
-                        >
-                          Clear
-                        </button>
-                      </div>
-                      <div className="max-h-28 overflow-y-auto space-y-1 pr-1">
-                        {batchVideo2.map((asset, index) => (
-                          <div key={asset.id} className="flex items-center justify-between gap-2">
-                            <span className="text-[10px] font-bold text-slate-700 truncate">
-                              {index + 1}. {asset.name}
-                            </span>
-                            <div className="flex items-center gap-1">
-                              <button
-                                onClick={() => moveBatchItem('video2', index, -1)}
-                                disabled={index === 0}
-                                className="text-[9px] font-black text-slate-300 hover:text-slate-500 disabled:opacity-40"
-                              >
-                                Up
-                              </button>
-                              <button
-                                onClick={() => moveBatchItem('video2', index, 1)}
-                                disabled={index === batchVideo2.length - 1}
-                                className="text-[9px] font-black text-slate-300 hover:text-slate-500 disabled:opacity-40"
-                              >
-                                Down
-                              </button>
-                              <button
-                                onClick={() => removeBatchItem('video2', asset.id)}
-                                className="text-[9px] font-black text-red-400 hover:text-red-600"
-                              >
-                                Remove
-                              </button>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
-                        <input type="file" accept="video/*" multiple onChange={handleFileUpload('video2')} className="hidden" />
-                        <ICONS.Download className="w-4 h-4 text-slate-200" />
-                        Add more clips
-                      </label>
-                    </div>
-                  ) : (
-                    <label className="flex flex-col items-center py-4 cursor-pointer">
-                      <input type="file" accept="video/*" multiple onChange={handleFileUpload('video2')} className="hidden" />
-                      <ICONS.Download className="w-5 h-5 text-slate-200 mb-1" />
-                      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Select Body Clips</span>
-                      <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest mt-1">or drop multiple videos</span>
-                    </label>
-                  )}
-                </div>
-              </div>
+                  + Add Clip Slot (outro, extra segment)
+                </button>
+              )}
               {dropError && (
                 <div className="text-[10px] font-bold text-red-500 bg-red-50 border border-red-100 rounded-2xl px-4 py-3">
                   {dropError}
@@ -987,27 +1491,584 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                 {batchPairs.length} item{batchPairs.length === 1 ? '' : 's'}
               </span>
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              {BATCH_STRATEGIES.map((item) => (
+                <button
+                  key={item.value}
+                  onClick={() => setBatchStrategy(item.value)}
+                  title={item.description}
+                  className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all flex items-center justify-between gap-2 ${
+                    batchStrategy === item.value
+                      ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                      : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                  }`}
+                >
+                  <span>{item.label}</span>
+                  <span className={batchStrategy === item.value ? 'text-blue-100' : 'text-slate-300'}>
+                    {strategyCounts[item.value]}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div className="text-[10px] font-bold text-slate-400">
+              {BATCH_STRATEGIES.find((item) => item.value === batchStrategy)?.description}
+            </div>
             {batchPairs.length === 0 ? (
               <p className="text-[10px] font-bold text-slate-400">Drop clips into Clip 1 to generate a batch.</p>
             ) : (
               <div className="space-y-2">
-                <div className="grid grid-cols-2 gap-3 text-[9px] font-black uppercase tracking-widest text-slate-400">
-                  <span>Clip 1</span>
-                  <span>Clip 2 (Optional)</span>
+                <div
+                  className="grid gap-3 text-[9px] font-black uppercase tracking-widest text-slate-400"
+                  style={{ gridTemplateColumns: `repeat(${pairingColumns}, minmax(0, 1fr))` }}
+                >
+                  {batchClips.map((_, slot) => (
+                    <span key={slot}>Clip {slot + 1}{slot > 0 ? ' (Optional)' : ''}</span>
+                  ))}
+                  {templateFields.map((field) => (
+                    <span key={field} className="text-blue-500 truncate">{`{{${field}}}`}</span>
+                  ))}
                 </div>
                 <div className="max-h-32 overflow-y-auto space-y-1 pr-1">
-                  {batchPairs.map((pair, index) => (
-                    <div key={`${pair.video1.id}-${index}`} className="grid grid-cols-2 gap-3 text-[10px] font-bold text-slate-700">
-                      <span className="truncate">{pair.video1.name}</span>
-                      <span className="truncate text-slate-500">{pair.video2?.name || '—'}</span>
+                  {batchPairs.map((pair) => (
+                    <div
+                      key={pair.key}
+                      className="grid gap-3 items-center text-[10px] font-bold text-slate-700"
+                      style={{ gridTemplateColumns: `repeat(${pairingColumns}, minmax(0, 1fr))` }}
+                    >
+                      {pair.slots.map((asset, slot) => (
+                        <span key={slot} className={`truncate ${slot > 0 ? 'text-slate-500' : ''}`}>
+                          {asset?.name || '—'}
+                        </span>
+                      ))}
+                      {templateFields.map((field) => (
+                        <input
+                          key={field}
+                          value={fieldValues[pair.key]?.[field] ?? ''}
+                          onChange={(e) => updateFieldValue(pair.key, field, e.target.value)}
+                          placeholder={field}
+                          className="min-w-0 px-2 py-1 rounded-lg border border-slate-200 text-[10px] font-bold text-slate-700"
+                        />
+                      ))}
                     </div>
                   ))}
                 </div>
               </div>
             )}
-            {ignoredClip2Count > 0 && (
+            {ignoredClipCount > 0 && (
               <div className="text-[10px] font-bold text-amber-500 bg-amber-50 border border-amber-100 rounded-2xl px-4 py-3">
-                {ignoredClip2Count} clip{ignoredClip2Count > 1 ? 's' : ''} in Clip 2 have no matching Clip 1 and will be ignored.
+                {ignoredClipCount} clip{ignoredClipCount > 1 ? 's are' : ' is'} not used by the {BATCH_STRATEGIES.find((item) => item.value === batchStrategy)?.label} strategy and will be ignored.
+              </div>
+            )}
+          </section>
+
+          <section className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+            <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-3">
+              <div className="w-1.5 h-4 bg-blue-500 rounded-full"></div> Output
+            </h2>
+            <div className="space-y-3">
+              {config.outputs.map((profile, index) => (
+                <div key={index} className="p-3 rounded-2xl border border-slate-100 bg-slate-50 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-black uppercase text-slate-500">
+                      Output {index + 1} <span className="text-blue-600">{formatOutputProfile(profile)}</span>
+                    </span>
+                    {config.outputs.length > 1 && (
+                      <button
+                        onClick={() => removeOutputProfile(index)}
+                        className="text-[9px] font-black text-red-400 hover:text-red-600 uppercase tracking-widest"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {QUALITY_OPTIONS.map((quality) => (
+                      <button
+                        key={quality}
+                        onClick={() => updateOutputProfile(index, { quality })}
+                        className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                          profile.quality === quality
+                            ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                            : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                        }`}
+                      >
+                        {quality}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    {FORMAT_OPTIONS.map((item) => (
+                      <button
+                        key={item.value}
+                        onClick={() => updateOutputProfile(index, { format: item.value })}
+                        className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                          profile.format === item.value
+                            ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                            : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                        }`}
+                      >
+                        {item.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-4 gap-2">
+                    {[null, ...LOUDNESS_TARGETS].map((target) => (
+                      <button
+                        key={target ?? 'off'}
+                        onClick={() => updateOutputProfile(index, { loudnessTarget: target })}
+                        className={`px-2 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                          (profile.loudnessTarget ?? null) === target
+                            ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                            : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                        }`}
+                      >
+                        {target === null ? 'As Mixed' : `${target} LUFS`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              {config.outputs.length < MAX_OUTPUT_PROFILES && (
+                <button onClick={addOutputProfile} className="text-[10px] font-bold text-blue-600 hover:underline">
+                  + Add Output
+                </button>
+              )}
+              {dedupeOutputProfiles(config.outputs).length < config.outputs.length && (
+                <div className="text-[10px] font-bold text-amber-500">Duplicate outputs are rendered once.</div>
+              )}
+              <div className="text-[10px] font-bold text-slate-400">
+                Every output renders from the same preprocessed clips. The preview follows Output 1.
+              </div>
+              <div className="text-[10px] font-bold text-slate-400">
+                A LUFS target measures the finished mix and normalizes it (true peak capped at -1 dBTP). -14 suits most
+                streaming platforms.
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
+                <span>Framing</span>
+                <span className="text-blue-600">{FIT_OPTIONS.find((item) => item.value === config.frameFit)?.label}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {FIT_OPTIONS.map((item) => (
+                  <button
+                    key={item.value}
+                    onClick={() => setConfig((prev) => ({ ...prev, frameFit: item.value }))}
+                    className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                      config.frameFit === item.value
+                        ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                        : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                    }`}
+                  >
+                    {item.label}
+                  </button>
+                ))}
+              </div>
+              <div className="text-[10px] font-bold text-slate-400">
+                Crop fills the frame, Fit letterboxes, Blur Fill places the clip over a blurred copy of itself.
+              </div>
+            </div>
+          </section>
+
+          <section className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-3">
+                <div className="w-1.5 h-4 bg-blue-200 rounded-full"></div> Transitions
+              </h2>
+              <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">
+                {TRANSITION_OPTIONS.find((item) => item.value === config.transition.type)?.label}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {TRANSITION_OPTIONS.map((item) => (
+                <button
+                  key={item.value}
+                  onClick={() => updateTransition({ type: item.value })}
+                  className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                    config.transition.type === item.value
+                      ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                      : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+            {transitionActive ? (
+              <div className="space-y-2">
+                <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
+                  <span>Duration</span>
+                  <span className="text-blue-600">{config.transition.duration.toFixed(1)}s</span>
+                </div>
+                <input
+                  type="range"
+                  min={0.2}
+                  max={MAX_TRANSITION_SECONDS}
+                  step={0.1}
+                  value={config.transition.duration}
+                  onChange={(e) => updateTransition({ duration: parseFloat(e.target.value) })}
+                  className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                />
+                <div className="text-[10px] font-bold text-slate-400">
+                  Neighbouring clips overlap by this amount, so the sequence gets shorter per transition.
+                </div>
+              </div>
+            ) : (
+              <div className="text-[10px] font-bold text-slate-400">Clips cut directly into each other.</div>
+            )}
+          </section>
+
+          <section className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-3">
+                <div className="w-1.5 h-4 bg-blue-300 rounded-full"></div> Captions
+              </h2>
+              <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">
+                {captionedClipCount} captioned
+              </span>
+            </div>
+            <div className="text-[10px] font-bold text-slate-400">
+              Use +CC next to a clip to burn in an .srt / .vtt file or a plain .txt transcript.
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1">
+                <span className="block text-[10px] font-black uppercase text-slate-400">Font</span>
+                <select
+                  value={config.captionStyle.fontFamily}
+                  onChange={(e) => updateCaptionStyle({ fontFamily: e.target.value })}
+                  className="w-full px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700 bg-white"
+                >
+                  {CAPTION_FONTS.map((font) => (
+                    <option key={font} value={font}>
+                      {font}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="block text-[10px] font-black uppercase text-slate-400">Text Color</span>
+                <input
+                  type="color"
+                  value={config.captionStyle.textColor}
+                  onChange={(e) => updateCaptionStyle({ textColor: e.target.value })}
+                  className="w-full h-9 rounded-xl border border-slate-200 bg-white cursor-pointer"
+                />
+              </label>
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
+                <span>Size</span>
+                <span className="text-blue-600">{config.captionStyle.fontSize}px @ 1080p</span>
+              </div>
+              <input
+                type="range"
+                min={MIN_CAPTION_FONT_SIZE}
+                max={MAX_CAPTION_FONT_SIZE}
+                step={2}
+                value={config.captionStyle.fontSize}
+                onChange={(e) => updateCaptionStyle({ fontSize: parseInt(e.target.value, 10) })}
+                className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {CAPTION_POSITION_OPTIONS.map((item) => (
+                <button
+                  key={item.value}
+                  onClick={() => updateCaptionStyle({ position: item.value })}
+                  className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                    config.captionStyle.position === item.value
+                      ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                      : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                  }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <button
+                onClick={() => updateCaptionStyle({ background: !config.captionStyle.background })}
+                className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                  config.captionStyle.background
+                    ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                    : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                }`}
+              >
+                Background Box
+              </button>
+              {config.captionStyle.background && (
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={config.captionStyle.backgroundOpacity}
+                  onChange={(e) => updateCaptionStyle({ backgroundOpacity: parseFloat(e.target.value) })}
+                  className="flex-1 h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                />
+              )}
+            </div>
+          </section>
+
+          <section className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-3">
+                <div className="w-1.5 h-4 bg-blue-300 rounded-full"></div> Logo Overlay
+              </h2>
+              {imageLibrary.length > 0 && !config.overlay && (
+                <button
+                  onClick={() => setLibraryPicker('image')}
+                  className="text-[10px] font-bold text-blue-600 hover:underline flex items-center gap-1"
+                >
+                  <ICONS.Image className="w-3 h-3" /> Pick from Library
+                </button>
+              )}
+            </div>
+
+            {config.overlay ? (
+              <div className="space-y-4">
+                <div
+                  onDragEnter={handleDragEnter('overlay')}
+                  onDragOver={handleDragOver('overlay')}
+                  onDragLeave={handleDragLeave('overlay')}
+                  onDrop={handleDrop('overlay')}
+                  className={`p-3 rounded-xl border flex items-center justify-between transition-all ${
+                    dragOverTarget === 'overlay' ? 'border-blue-500 bg-blue-50/50' : 'border-slate-100 bg-slate-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-3 overflow-hidden">
+                    <div className="w-8 h-8 rounded-lg bg-white border border-slate-100 flex items-center justify-center overflow-hidden shrink-0">
+                      {config.overlay.url ? (
+                        <img src={config.overlay.url} alt="" className="max-w-full max-h-full object-contain" />
+                      ) : (
+                        <ICONS.Image className="w-4 h-4 text-slate-300" />
+                      )}
+                    </div>
+                    <span className="text-[10px] font-bold text-slate-700 truncate">{config.overlay.name}</span>
+                  </div>
+                  <button
+                    onClick={() => setConfig((prev) => ({ ...prev, overlay: null }))}
+                    className="text-[10px] font-black text-red-400 hover:text-red-600 transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {OVERLAY_CORNER_OPTIONS.map((item) => (
+                    <button
+                      key={item.value}
+                      onClick={() => updateOverlay({ corner: item.value })}
+                      className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                        config.overlay?.corner === item.value
+                          ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                          : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                      }`}
+                    >
+                      {item.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
+                    <span>Scale</span>
+                    <span className="text-blue-600">{Math.round(config.overlay.scale * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={MIN_OVERLAY_SCALE}
+                    max={MAX_OVERLAY_SCALE}
+                    step={0.01}
+                    value={config.overlay.scale}
+                    onChange={(e) => updateOverlay({ scale: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
+                    <span>Margin</span>
+                    <span className="text-blue-600">{Math.round(config.overlay.margin * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_OVERLAY_MARGIN}
+                    step={0.005}
+                    value={config.overlay.margin}
+                    onChange={(e) => updateOverlay({ margin: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
+                    <span>Opacity</span>
+                    <span className="text-blue-600">{Math.round(config.overlay.opacity * 100)}%</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    value={config.overlay.opacity}
+                    onChange={(e) => updateOverlay({ opacity: parseFloat(e.target.value) })}
+                    className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="space-y-1">
+                    <span className="block text-[10px] font-black uppercase text-slate-400">Visible From (s)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={config.overlay.startTime}
+                      onChange={(e) => updateOverlay({ startTime: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-full px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-[10px] font-black uppercase text-slate-400">Visible To (s)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      placeholder="End"
+                      value={config.overlay.endTime ?? ''}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        updateOverlay({ endTime: Number.isFinite(value) && value > 0 ? value : null });
+                      }}
+                      className="w-full px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700"
+                    />
+                  </label>
+                </div>
+                <div className="text-[10px] font-bold text-slate-400">
+                  Leave "Visible To" empty to keep the logo on screen until the end.
+                </div>
+              </div>
+            ) : (
+              <label
+                onDragEnter={handleDragEnter('overlay')}
+                onDragOver={handleDragOver('overlay')}
+                onDragLeave={handleDragLeave('overlay')}
+                onDrop={handleDrop('overlay')}
+                className={`flex flex-col items-center justify-center py-6 cursor-pointer border-2 border-dashed rounded-2xl transition-colors ${
+                  dragOverTarget === 'overlay' ? 'border-blue-500 bg-blue-50/50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <input type="file" accept={OVERLAY_IMAGE_ACCEPT} onChange={handleFileUpload('overlay')} className="hidden" />
+                <ICONS.Image className="w-8 h-8 text-slate-200 mb-2" />
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Add Logo / Watermark</span>
+                <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest mt-1">drop PNG / SVG / drag from library</span>
+              </label>
+            )}
+          </section>
+
+          <section className="bg-white rounded-3xl border border-slate-200 p-6 shadow-sm space-y-4">
+            <div className="flex justify-between items-center">
+              <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-3">
+                <div className="w-1.5 h-4 bg-blue-300 rounded-full"></div> Text Layers
+              </h2>
+              {config.textLayers.length < MAX_TEXT_LAYERS && (
+                <button onClick={addTextLayer} className="text-[10px] font-bold text-blue-600 hover:underline">
+                  + Add Text Layer
+                </button>
+              )}
+            </div>
+            {config.textLayers.length === 0 ? (
+              <div className="text-[10px] font-bold text-slate-400">
+                Add a lower third or title. Use {'{{field}}'} placeholders to fill in names per batch item.
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {config.textLayers.map((layer, index) => (
+                  <div key={layer.id} className="p-3 rounded-2xl border border-slate-100 bg-slate-50 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[10px] font-black uppercase text-slate-500">Layer {index + 1}</span>
+                      <button
+                        onClick={() => removeTextLayer(layer.id)}
+                        className="text-[9px] font-black text-red-400 hover:text-red-600 uppercase tracking-widest"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    <input
+                      value={layer.text}
+                      onChange={(e) => updateTextLayer(layer.id, { text: e.target.value })}
+                      placeholder="Title, e.g. {{name}}"
+                      className="w-full px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700 bg-white"
+                    />
+                    <input
+                      value={layer.subtitle}
+                      onChange={(e) => updateTextLayer(layer.id, { subtitle: e.target.value })}
+                      placeholder="Subtitle, e.g. {{role}}"
+                      className="w-full px-3 py-2 rounded-xl border border-slate-200 text-[11px] font-bold text-slate-700 bg-white"
+                    />
+                    <div className="grid grid-cols-3 gap-2">
+                      {TEXT_LAYER_PRESETS.map((item) => (
+                        <button
+                          key={item.value}
+                          onClick={() => updateTextLayer(layer.id, { preset: item.value })}
+                          className={`px-2 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+                            layer.preset === item.value
+                              ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
+                              : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                          }`}
+                        >
+                          {item.label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <label className="space-y-1">
+                        <span className="block text-[9px] font-black uppercase text-slate-400">Clip</span>
+                        <select
+                          value={layer.anchorClip}
+                          onChange={(e) => updateTextLayer(layer.id, { anchorClip: parseInt(e.target.value, 10) })}
+                          className="w-full px-2 py-1.5 rounded-xl border border-slate-200 text-[10px] font-bold text-slate-700 bg-white"
+                        >
+                          {batchClips.map((_, slot) => (
+                            <option key={slot} value={slot}>
+                              Clip {slot + 1}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="space-y-1">
+                        <span className="block text-[9px] font-black uppercase text-slate-400">In (s)</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={layer.startTime}
+                          onChange={(e) => {
+                            const startTime = Math.max(0, parseFloat(e.target.value) || 0);
+                            updateTextLayer(layer.id, { startTime, endTime: Math.max(layer.endTime, startTime) });
+                          }}
+                          className="w-full px-2 py-1.5 rounded-xl border border-slate-200 text-[10px] font-bold text-slate-700 bg-white"
+                        />
+                      </label>
+                      <label className="space-y-1">
+                        <span className="block text-[9px] font-black uppercase text-slate-400">Out (s)</span>
+                        <input
+                          type="number"
+                          min={layer.startTime}
+                          step={0.5}
+                          value={layer.endTime}
+                          onChange={(e) =>
+                            updateTextLayer(layer.id, {
+                              endTime: Math.max(layer.startTime, parseFloat(e.target.value) || 0),
+                            })
+                          }
+                          className="w-full px-2 py-1.5 rounded-xl border border-slate-200 text-[10px] font-bold text-slate-700 bg-white"
+                        />
+                      </label>
+                    </div>
+                  </div>
+                ))}
+                <div className="text-[10px] font-bold text-slate-400">
+                  Times are relative to the start of the chosen clip. {'{{clip}}'} is filled with each item's Clip 1 file name;
+                  other fields get a column in Batch Pairing.
+                </div>
               </div>
             )}
           </section>
@@ -1017,9 +2078,9 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
               <h2 className="text-xs font-black text-slate-400 uppercase tracking-[0.2em] flex items-center gap-3">
                  <div className="w-1.5 h-4 bg-blue-400 rounded-full"></div> Audio Logic
               </h2>
-              {library.length > 0 && !config.bgm && (
+              {audioLibrary.length > 0 && config.audioCues.length < MAX_AUDIO_CUES && (
                 <button 
-                  onClick={() => setShowLibraryPicker(true)}
+                  onClick={() => setLibraryPicker('audio')}
                   className="text-[10px] font-bold text-blue-600 hover:underline flex items-center gap-1"
                 >
                   <ICONS.Music className="w-3 h-3" /> Pick from Library
@@ -1027,40 +2088,63 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
               )}
             </div>
             
-            {config.bgm ? (
+            {activeCue ? (
               <div className="space-y-6">
                 <div
-                  onDragEnter={handleDragEnter('bgm')}
-                  onDragOver={handleDragOver('bgm')}
-                  onDragLeave={handleDragLeave('bgm')}
-                  onDrop={handleDrop('bgm')}
-                  className={`p-3 rounded-xl border flex items-center justify-between transition-all ${
-                    dragOverTarget === 'bgm'
+                  onDragEnter={handleDragEnter('audio')}
+                  onDragOver={handleDragOver('audio')}
+                  onDragLeave={handleDragLeave('audio')}
+                  onDrop={handleDrop('audio')}
+                  className={`p-2 rounded-xl border space-y-1 transition-all ${
+                    dragOverTarget === 'audio'
                       ? 'bg-purple-50 border-purple-300 border-dashed'
                       : 'bg-slate-50 border-slate-100'
                   }`}
                 >
-                  <div className="flex items-center gap-2 overflow-hidden">
-                    <ICONS.Music className="w-4 h-4 text-blue-500" />
-                    <span className="text-[10px] font-bold truncate text-slate-600">{config.bgm.name}</span>
-                  </div>
-                  <button onClick={() => setConfig(prev => ({...prev, bgm: null}))} className="text-[10px] font-bold text-red-400 hover:text-red-600 transition-colors">Remove</button>
+                  {config.audioCues.map((cue) => (
+                    <div
+                      key={cue.cueId}
+                      className={`px-2 py-1.5 rounded-lg flex items-center justify-between gap-2 ${
+                        cue.cueId === activeCue.cueId ? 'bg-white shadow-sm' : ''
+                      }`}
+                    >
+                      <button
+                        onClick={() => setActiveCueId(cue.cueId)}
+                        className="flex items-center gap-2 overflow-hidden flex-1 text-left"
+                      >
+                        <ICONS.Music
+                          className={`w-4 h-4 shrink-0 ${cue.cueId === activeCue.cueId ? 'text-blue-500' : 'text-slate-300'}`}
+                        />
+                        <span className="text-[10px] font-bold truncate text-slate-600">{cue.name}</span>
+                        <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 shrink-0">
+                          {formatCueAnchor(cue.anchorClip)}
+                        </span>
+                      </button>
+                      <button onClick={() => removeAudioCue(cue.cueId)} className="text-[10px] font-bold text-red-400 hover:text-red-600 transition-colors">Remove</button>
+                    </div>
+                  ))}
+                  {config.audioCues.length < MAX_AUDIO_CUES && (
+                    <label className="block px-2 py-1.5 cursor-pointer text-[10px] font-bold text-blue-600 hover:underline">
+                      <input type="file" accept="audio/*" onChange={handleFileUpload('audio')} className="hidden" />
+                      + Add Cue
+                    </label>
+                  )}
                 </div>
 
                 <div className="space-y-4">
                   <div className="space-y-2">
                     <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
-                      <span>Target Clip</span>
-                      <span className="text-blue-600">{bgmModeOptions.find((item) => item.value === config.bgm.mode)?.label}</span>
+                      <span>Anchor</span>
+                      <span className="text-blue-600">{formatCueAnchor(activeCue.anchorClip)}</span>
                     </div>
-                    <div className="grid grid-cols-3 gap-2">
-                      {bgmModeOptions.map((item) => (
+                    <div className="grid grid-cols-4 gap-2">
+                      {cueAnchorOptions.map((item) => (
                         <button
-                          key={item.value}
-                          onClick={() => handleBgmModeChange(item.value)}
+                          key={item.label}
+                          onClick={() => handleCueAnchorChange(item.value)}
                           disabled={item.disabled}
                           className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
-                            config.bgm.mode === item.value
+                            activeCue.anchorClip === item.value
                               ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
                               : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
                           } ${item.disabled ? 'opacity-50 cursor-not-allowed hover:border-slate-200 hover:text-slate-400' : ''}`}
@@ -1074,13 +2158,13 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                   <div className="space-y-2">
                     <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
                       <span>Length</span>
-                      <span className="text-blue-600">{Math.round(config.bgm.playLength)}s</span>
+                      <span className="text-blue-600">{Math.round(activeCue.playLength)}s</span>
                     </div>
                     <div className="grid grid-cols-2 gap-2">
                       <button
-                        onClick={() => handleBgmLengthModeChange('full')}
+                        onClick={() => handleCueLengthModeChange('full')}
                         className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
-                          bgmLengthMode === 'full'
+                          activeCueModes.length === 'full'
                             ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
                             : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
                         }`}
@@ -1088,9 +2172,9 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                         Full Track
                       </button>
                       <button
-                        onClick={() => handleBgmLengthModeChange('custom')}
+                        onClick={() => handleCueLengthModeChange('custom')}
                         className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
-                          bgmLengthMode === 'custom'
+                          activeCueModes.length === 'custom'
                             ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
                             : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
                         }`}
@@ -1098,14 +2182,14 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                         Custom Length
                       </button>
                     </div>
-                    {bgmLengthMode === 'custom' ? (
+                    {activeCueModes.length === 'custom' ? (
                       <input
                         type="range"
                         min="1"
-                        max={bgmPlayLengthMax}
+                        max={cuePlayLengthMax}
                         step="1"
-                        value={config.bgm.playLength}
-                        onChange={(e) => handleBgmLengthChange(parseInt(e.target.value))}
+                        value={activeCue.playLength}
+                        onChange={(e) => handleCueLengthChange(parseInt(e.target.value))}
                         className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
                       />
                     ) : (
@@ -1114,15 +2198,15 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                       </div>
                     )}
                     <div className="flex justify-between text-[10px] font-bold text-slate-400">
-                      <span>Target: {Math.round(bgmTargetDuration || 0)}s</span>
-                      <span>Audio: {Math.round(bgmDuration || 0)}s</span>
+                      <span>Target: {Math.round(cueTargetDuration || 0)}s</span>
+                      <span>Audio: {Math.round(cueDuration || 0)}s</span>
                     </div>
-                    {bgmLengthMode === 'full' && bgmDuration > bgmTargetDuration && (
+                    {activeCueModes.length === 'full' && cueDuration > cueTargetDuration && (
                       <div className="text-[10px] font-bold text-amber-500 bg-amber-50 border border-amber-100 rounded-2xl px-3 py-2">
                         Track is longer than the target clip. It will be trimmed to fit.
                       </div>
                     )}
-                    {bgmAutoLoop && (
+                    {cueAutoLoop && (
                       <div className="flex items-center gap-2 text-[10px] font-bold text-blue-600 bg-blue-50 rounded-lg px-2 py-1 border border-blue-100">
                         <div className="w-1.5 h-1.5 rounded-full bg-blue-600"></div>
                         Auto-looping enabled because length exceeds the track.
@@ -1133,13 +2217,13 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                   <div className="space-y-2">
                     <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
                       <span>Start</span>
-                      <span className="text-blue-600">{bgmStartTime}s</span>
+                      <span className="text-blue-600">{cueStartTime}s</span>
                     </div>
                     <div className="grid grid-cols-3 gap-2">
                       <button
-                        onClick={() => handleBgmStartModeChange('beginning')}
+                        onClick={() => handleCueStartModeChange('beginning')}
                         className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
-                          bgmStartMode === 'beginning'
+                          activeCueModes.start === 'beginning'
                             ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
                             : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
                         }`}
@@ -1147,9 +2231,9 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                         Beginning
                       </button>
                       <button
-                        onClick={() => handleBgmStartModeChange('end')}
+                        onClick={() => handleCueStartModeChange('end')}
                         className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
-                          bgmStartMode === 'end'
+                          activeCueModes.start === 'end'
                             ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
                             : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
                         }`}
@@ -1157,9 +2241,9 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                         End
                       </button>
                       <button
-                        onClick={() => handleBgmStartModeChange('custom')}
+                        onClick={() => handleCueStartModeChange('custom')}
                         className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
-                          bgmStartMode === 'custom'
+                          activeCueModes.start === 'custom'
                             ? 'bg-blue-600 text-white border-blue-700 shadow-sm'
                             : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
                         }`}
@@ -1167,29 +2251,29 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                         Custom
                       </button>
                     </div>
-                    {bgmStartMode === 'custom' ? (
+                    {activeCueModes.start === 'custom' ? (
                       <>
                         <input
                           type="range"
                           min="0"
-                          max={bgmStartTimeMax}
+                          max={cueStartTimeMax}
                           step="1"
-                          value={bgmStartTime}
-                          onChange={(e) => handleBgmStartChange(parseInt(e.target.value))}
+                          value={cueStartTime}
+                          onChange={(e) => handleCueStartChange(parseInt(e.target.value))}
                           className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
                         />
                         <div className="flex justify-between text-[10px] font-bold text-slate-400">
-                          <span>Max Start: {bgmStartTimeMax}s</span>
-                          <span>Target: {Math.round(bgmTargetDuration || 0)}s</span>
+                          <span>Max Start: {cueStartTimeMax}s</span>
+                          <span>Target: {Math.round(cueTargetDuration || 0)}s</span>
                         </div>
                         <div className="text-[10px] font-bold text-slate-400">
                           Pick exactly where the music should begin within the target.
                         </div>
                       </>
-                    ) : bgmStartMode === 'end' ? (
+                    ) : activeCueModes.start === 'end' ? (
                       <div className="space-y-1 text-[10px] font-bold text-slate-400">
                         <p>Starts the music so it finishes at the end using the selected length.</p>
-                        {bgmLengthMode === 'custom' && (
+                        {activeCueModes.length === 'custom' && (
                           <p className="text-amber-500">
                             End uses your custom length. Switch to Full Track to place the entire song.
                           </p>
@@ -1205,20 +2289,20 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                   <div className="space-y-2">
                     <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
                       <span>Loop</span>
-                      <span className="text-blue-600">{bgmLoopActive ? 'On' : 'Off'}</span>
+                      <span className="text-blue-600">{cueLoopActive ? 'On' : 'Off'}</span>
                     </div>
                     <button
-                      onClick={handleBgmLoopToggle}
-                      disabled={bgmLoopLocked}
+                      onClick={handleCueLoopToggle}
+                      disabled={cueLoopLocked}
                       className={`w-full flex items-center justify-between px-4 py-3 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${
-                        bgmLoopActive
+                        cueLoopActive
                           ? 'bg-blue-600 text-white border-blue-700'
                           : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
-                      } ${bgmLoopLocked ? 'opacity-60 cursor-not-allowed' : ''}`}
+                      } ${cueLoopLocked ? 'opacity-60 cursor-not-allowed' : ''}`}
                     >
-                      <span>{bgmLoopLocked ? 'Auto-Looping Forced' : bgmLoopActive ? 'Looping Enabled' : 'Looping Disabled'}</span>
+                      <span>{cueLoopLocked ? 'Auto-Looping Forced' : cueLoopActive ? 'Looping Enabled' : 'Looping Disabled'}</span>
                       <span className="text-[9px] font-black">
-                        {bgmLoopLocked ? 'AUTO' : bgmLoopActive ? 'ON' : 'OFF'}
+                        {cueLoopLocked ? 'AUTO' : cueLoopActive ? 'ON' : 'OFF'}
                       </span>
                     </button>
                   </div>
@@ -1226,38 +2310,142 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                   <div className="space-y-2 pt-2">
                     <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
                       <span>Volume</span>
-                      <span className="text-blue-600">{formatDb(config.bgm.volumeDb)}</span>
+                      <span className="text-blue-600">{formatDb(activeCue.volumeDb)}</span>
                     </div>
                     <input
                       type="range"
                       min={-40}
                       max={40}
                       step={1}
-                      value={config.bgm.volumeDb}
-                      onChange={(e) => updateBgm({ volumeDb: Math.round(parseFloat(e.target.value)) })}
+                      value={activeCue.volumeDb}
+                      onChange={(e) => updateActiveCue({ volumeDb: Math.round(parseFloat(e.target.value)) })}
                       className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
                     />
                     <div className="text-[10px] font-bold text-slate-400">
                       0 dB = original volume. Boosts above 0 dB may clip.
                     </div>
+                    <div className="grid grid-cols-2 gap-3 pt-1">
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                          <span>Fade In</span>
+                          <span>{activeCue.fadeIn.toFixed(1)}s</span>
+                        </div>
+                        <input
+                          type="range"
+                          min={0}
+                          max={MAX_FADE_SECONDS}
+                          step={0.1}
+                          value={activeCue.fadeIn}
+                          onChange={(e) => updateActiveCue({ fadeIn: parseFloat(e.target.value) || 0 })}
+                          className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                          <span>Fade Out</span>
+                          <span>{activeCue.fadeOut.toFixed(1)}s</span>
+                        </div>
+                        <input
+                          type="range"
+                          min={0}
+                          max={MAX_FADE_SECONDS}
+                          step={0.1}
+                          value={activeCue.fadeOut}
+                          onChange={(e) => updateActiveCue({ fadeOut: parseFloat(e.target.value) || 0 })}
+                          className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2 pt-2">
+                    <div className="flex justify-between text-[10px] font-black uppercase text-slate-400">
+                      <span>Duck Under Speech</span>
+                      <span className="text-blue-600">{cueDucking.enabled ? formatDb(cueDucking.depthDb) : 'Off'}</span>
+                    </div>
+                    <button
+                      onClick={() => updateDucking({ enabled: !cueDucking.enabled })}
+                      className={`w-full flex items-center justify-between px-4 py-3 rounded-2xl border text-[10px] font-black uppercase tracking-widest transition-all ${
+                        cueDucking.enabled
+                          ? 'bg-blue-600 text-white border-blue-700'
+                          : 'bg-white text-slate-400 border-slate-200 hover:border-blue-200 hover:text-blue-600'
+                      }`}
+                    >
+                      <span>{cueDucking.enabled ? 'Ducking Enabled' : 'Ducking Disabled'}</span>
+                      <span className="text-[9px] font-black">{cueDucking.enabled ? 'ON' : 'OFF'}</span>
+                    </button>
+                    {cueDucking.enabled && (
+                      <div className="space-y-3 pt-1">
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                            <span>Depth</span>
+                            <span>{formatDb(cueDucking.depthDb)}</span>
+                          </div>
+                          <input
+                            type="range"
+                            min={MIN_DUCK_DEPTH_DB}
+                            max={0}
+                            step={1}
+                            value={cueDucking.depthDb}
+                            onChange={(e) => updateDucking({ depthDb: Math.round(parseFloat(e.target.value)) })}
+                            className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                            <span>Attack</span>
+                            <span>{cueDucking.attackMs} ms</span>
+                          </div>
+                          <input
+                            type="range"
+                            min={0}
+                            max={MAX_DUCK_ATTACK_MS}
+                            step={10}
+                            value={cueDucking.attackMs}
+                            onChange={(e) => updateDucking({ attackMs: Math.round(parseFloat(e.target.value)) })}
+                            className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-[9px] font-black uppercase text-slate-400">
+                            <span>Release</span>
+                            <span>{cueDucking.releaseMs} ms</span>
+                          </div>
+                          <input
+                            type="range"
+                            min={0}
+                            max={MAX_DUCK_RELEASE_MS}
+                            step={50}
+                            value={cueDucking.releaseMs}
+                            onChange={(e) => updateDucking({ releaseMs: Math.round(parseFloat(e.target.value)) })}
+                            className="w-full h-1.5 bg-slate-100 rounded-full appearance-none cursor-pointer accent-blue-600"
+                          />
+                        </div>
+                        <div className="text-[10px] font-bold text-slate-400">
+                          {previewSpeechPending
+                            ? `Finding speech in ${previewLabel}…`
+                            : 'The music dips over the attack before speech and recovers over the release after it.'}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
             ) : (
               <label
-                onDragEnter={handleDragEnter('bgm')}
-                onDragOver={handleDragOver('bgm')}
-                onDragLeave={handleDragLeave('bgm')}
-                onDrop={handleDrop('bgm')}
+                onDragEnter={handleDragEnter('audio')}
+                onDragOver={handleDragOver('audio')}
+                onDragLeave={handleDragLeave('audio')}
+                onDrop={handleDrop('audio')}
                 className={`flex flex-col items-center justify-center py-8 cursor-pointer border-2 border-dashed rounded-2xl transition-colors ${
-                  dragOverTarget === 'bgm'
+                  dragOverTarget === 'audio'
                     ? 'border-purple-500 bg-purple-50/50'
                     : 'border-slate-200 hover:bg-slate-50'
                 }`}
               >
-                <input type="file" accept="audio/*" onChange={handleFileUpload('bgm')} className="hidden" />
+                <input type="file" accept="audio/*" onChange={handleFileUpload('audio')} className="hidden" />
                 <ICONS.Music className="w-8 h-8 text-slate-200 mb-2" />
-                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Incorporate BGM Track</span>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Add Audio Cue</span>
                 <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest mt-1">drop audio / drag from library</span>
               </label>
             )}
@@ -1268,12 +2456,71 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
           <section
             onClick={handlePreviewClick}
             className={`bg-slate-950 rounded-[2.5rem] overflow-hidden aspect-video shadow-2xl border-[12px] border-slate-900 relative group ${
-              config.bgm && !audioUnlocked ? 'cursor-pointer' : ''
+              activeCue && !audioUnlocked ? 'cursor-pointer' : ''
             }`}
           >
             {previewClip && previewClip.url ? (
-              <div className="w-full h-full relative">
-                <video ref={videoRef} src={previewClip.url} className="w-full h-full object-cover opacity-60" autoPlay muted={!audioUnlocked} loop />
+              <div className="w-full h-full relative flex items-center justify-center">
+                <div
+                  className="relative h-full max-w-full overflow-hidden bg-black"
+                  style={{ aspectRatio: previewAspect, containerType: 'size' }}
+                >
+                  {config.frameFit === 'blur' && (
+                    <video
+                      src={previewClip.url}
+                      className="absolute inset-0 w-full h-full object-cover blur-2xl scale-110 opacity-40"
+                      autoPlay
+                      muted
+                      loop
+                    />
+                  )}
+                  <video
+                    ref={videoRef}
+                    src={previewClip.url}
+                    className={`relative w-full h-full opacity-60 ${config.frameFit === 'crop' ? 'object-cover' : 'object-contain'}`}
+                    autoPlay
+                    muted={!audioUnlocked}
+                    loop
+                    onTimeUpdate={(e) => setPreviewTime(e.currentTarget.currentTime)}
+                    onPlaying={syncPreviewDucking}
+                    onSeeked={syncPreviewDucking}
+                    onPause={syncPreviewDucking}
+                  />
+                  {previewTextLayers.map((layer) => {
+                    const styles = getTextLayerStyles(layer.preset, previewTextUnit);
+                    const visible = previewTime >= layer.startTime && previewTime < layer.endTime;
+                    const title = fillTemplate(layer.text, previewFields);
+                    const subtitle = fillTemplate(layer.subtitle, previewFields);
+                    return (
+                      <div key={layer.id} style={styles.container}>
+                        <div
+                          style={{
+                            ...styles.box,
+                            opacity: visible ? 1 : 0,
+                            transform: getTextLayerOffset(layer.preset, visible ? 0 : 1, previewTextUnit),
+                            transition: 'opacity 300ms ease-out, transform 300ms ease-out',
+                          }}
+                        >
+                          {title && <div style={styles.title}>{title}</div>}
+                          {subtitle && <div style={styles.subtitle}>{subtitle}</div>}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  {config.overlay?.url && overlayPlacement && (
+                    <img
+                      src={config.overlay.url}
+                      alt=""
+                      className="absolute pointer-events-none h-auto"
+                      style={{
+                        [overlayPlacement.vertical]: `${config.overlay.margin * 100}cqmin`,
+                        [overlayPlacement.horizontal]: `${config.overlay.margin * 100}cqmin`,
+                        width: `${config.overlay.scale * 100}cqmin`,
+                        opacity: config.overlay.opacity,
+                      }}
+                    />
+                  )}
+                </div>
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                    <div className="px-6 py-2 bg-blue-600/20 backdrop-blur-xl border border-white/20 rounded-full text-white text-[10px] font-black tracking-[0.3em] uppercase">
                      Local Workspace Preview
@@ -1286,7 +2533,7 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
                     </div>
                   </div>
                 )}
-                {config.bgm?.url ? <audio ref={audioRef} src={config.bgm.url} preload="auto" /> : null}
+                {activeCue?.url ? <audio ref={audioRef} src={activeCue.url} preload="auto" /> : null}
               </div>
             ) : (
               <div className="w-full h-full flex items-center justify-center bg-[radial-gradient(circle_at_center,#1e293b_0%,#020617_100%)]">
@@ -1313,13 +2560,39 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
 {JSON.stringify({
   template: "heygen-cms-v2",
   id: config.id || "TEMP",
-  bgm: config.bgm ? {
-    len: config.bgm.playLength,
-    volDb: config.bgm.volumeDb,
-    mode: config.bgm.mode,
-    loop: bgmLoopActive,
-    start: config.bgm.startTime
-  } : null
+  clips: config.clips.length,
+  outputs: config.outputs.map(getOutputProfileId),
+  fit: config.frameFit,
+  transition: transitionActive ? {
+    type: config.transition.type,
+    sec: config.transition.duration
+  } : null,
+  captions: captionedClipCount > 0 ? {
+    clips: captionedClipCount,
+    font: config.captionStyle.fontFamily,
+    size: config.captionStyle.fontSize,
+    pos: config.captionStyle.position
+  } : null,
+  overlay: config.overlay ? {
+    corner: config.overlay.corner,
+    scale: config.overlay.scale,
+    opacity: config.overlay.opacity,
+    from: config.overlay.startTime,
+    to: config.overlay.endTime ?? "end"
+  } : null,
+  textLayers: config.textLayers.length > 0 ? config.textLayers.map((layer) => ({
+    preset: layer.preset,
+    clip: layer.anchorClip + 1,
+    in: layer.startTime,
+    out: layer.endTime
+  })) : null,
+  audioCues: config.audioCues.length > 0 ? config.audioCues.map((cue) => ({
+    clip: formatCueAnchor(cue.anchorClip),
+    len: cue.playLength,
+    volDb: cue.volumeDb,
+    loop: isCueLooping(cue),
+    start: cue.startTime
+  })) : null
 }, null, 2)}
                 </pre>
              </div>
@@ -1344,28 +2617,84 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ onEnqueue, libra
         </div>
       </div>
 
+      {manifestReport && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/20 backdrop-blur-sm animate-fadeIn">
+          <div className="bg-white w-full max-w-2xl rounded-[2rem] shadow-2xl border border-slate-100 overflow-hidden flex flex-col max-h-[80vh]">
+            <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+              <div>
+                <h3 className="font-black text-slate-900 uppercase text-xs tracking-widest">Manifest Import</h3>
+                <p className="text-[10px] font-bold text-slate-400 mt-1">{manifestReport.fileName}</p>
+              </div>
+              <button onClick={() => setManifestReport(null)} className="text-slate-400 hover:text-slate-600 text-sm font-bold">Close</button>
+            </div>
+            <div className="p-4 overflow-y-auto space-y-2">
+              {manifestReport.error ? (
+                <p className="text-[11px] font-bold text-red-500 bg-red-50 border border-red-100 rounded-2xl px-4 py-3">
+                  {manifestReport.error}
+                </p>
+              ) : (
+                manifestReport.rows.map((row) => (
+                  <div
+                    key={row.row}
+                    className={`px-4 py-3 rounded-2xl border text-[10px] font-bold ${
+                      row.errors.length > 0 ? 'border-red-100 bg-red-50 text-red-500' : 'border-slate-100 bg-slate-50 text-slate-600'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="truncate">
+                        Row {row.row}: {row.name || row.clips.map((clip) => clip.name).join(' + ') || 'Unnamed'}
+                      </span>
+                      <span className="uppercase tracking-widest shrink-0">
+                        {row.errors.length > 0 ? 'Skipped' : `${row.clips.length} clip${row.clips.length === 1 ? '' : 's'}`}
+                      </span>
+                    </div>
+                    {row.errors.map((message) => (
+                      <p key={message} className="mt-1">{message}</p>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-4">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                {manifestValidCount} of {manifestReport.rows.length} rows ready
+              </span>
+              <button
+                onClick={queueManifestRows}
+                disabled={manifestValidCount === 0}
+                className="px-6 py-3 rounded-2xl font-bold text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Queue {manifestValidCount} Item{manifestValidCount === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Library Selection Modal */}
-      {showLibraryPicker && (
+      {libraryPicker && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-950/20 backdrop-blur-sm animate-fadeIn">
           <div className="bg-white w-full max-w-lg rounded-[2rem] shadow-2xl border border-slate-100 overflow-hidden flex flex-col max-h-[80vh]">
             <div className="p-6 border-b border-slate-100 flex justify-between items-center">
                <h3 className="font-black text-slate-900 uppercase text-xs tracking-widest">Select From Library</h3>
-               <button onClick={() => setShowLibraryPicker(false)} className="text-slate-400 hover:text-slate-600 text-sm font-bold">Close</button>
+               <button onClick={() => setLibraryPicker(null)} className="text-slate-400 hover:text-slate-600 text-sm font-bold">Close</button>
             </div>
             <div className="p-4 overflow-y-auto space-y-2">
-               {library.map((asset) => (
+               {(libraryPicker === 'image' ? imageLibrary : audioLibrary).map((asset) => (
                  <button 
                   key={asset.id}
-                  onClick={() => selectFromLibrary(asset)}
+                  onClick={() => (asset.kind === 'image' ? selectOverlayFromLibrary(asset) : selectFromLibrary(asset))}
                   className="w-full p-4 rounded-2xl hover:bg-blue-50 transition-all border border-transparent hover:border-blue-100 flex items-center justify-between group"
                  >
                    <div className="flex items-center gap-4">
                       <div className="w-10 h-10 bg-white rounded-xl flex items-center justify-center text-blue-600 border border-slate-100 group-hover:bg-blue-600 group-hover:text-white transition-all">
-                        <ICONS.Music className="w-5 h-5" />
+                        {asset.kind === 'image' ? <ICONS.Image className="w-5 h-5" /> : <ICONS.Music className="w-5 h-5" />}
                       </div>
                       <div className="text-left">
                         <p className="text-sm font-bold text-slate-800 truncate max-w-[200px]">{asset.name}</p>
-                        <p className="text-[10px] font-bold text-slate-400 uppercase">Library Asset • {(asset.duration / 60).toFixed(1)}m</p>
+                        <p className="text-[10px] font-bold text-slate-400 uppercase">
+                          Library Asset • {asset.kind === 'image' ? 'Image' : `${(asset.duration / 60).toFixed(1)}m`}
+                        </p>
                       </div>
                    </div>
                    <ICONS.Check className="w-5 h-5 text-blue-600 opacity-0 group-hover:opacity-100" />
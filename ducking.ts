@@ -0,0 +1,143 @@
+import { DuckingSettings, SpeechRegion } from './types';
+import { dbToGain } from './audioLevels';
+
+export const MIN_DUCK_DEPTH_DB = -30;
+export const MAX_DUCK_ATTACK_MS = 2000;
+export const MAX_DUCK_RELEASE_MS = 4000;
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+  enabled: false,
+  depthDb: -12,
+  attackMs: 150,
+  releaseMs: 500,
+};
+
+// Same thresholds as the server's silencedetect pass, so the preview ducks where the render will.
+export const SPEECH_NOISE_DB = -35;
+export const SPEECH_MIN_SILENCE_SECONDS = 0.3;
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const ANALYSIS_WINDOW_SECONDS = 0.02;
+const MAX_ANALYSIS_BYTES = 512 * 1024 * 1024;
+
+export interface DuckingPoint {
+  time: number;
+  db: number;
+}
+
+// The music starts dipping `attack` before the speech so the first word is already clear.
+export const buildDuckingEnvelope = (regions: SpeechRegion[], settings: DuckingSettings): DuckingPoint[] => {
+  if (!settings.enabled || regions.length === 0) {
+    return [];
+  }
+  const attack = Math.max(0, settings.attackMs) / 1000;
+  const release = Math.max(0, settings.releaseMs) / 1000;
+  const merged: SpeechRegion[] = [];
+  regions
+    .filter((region) => region.end > region.start)
+    .sort((a, b) => a.start - b.start)
+    .forEach((region) => {
+      // Pauses shorter than a full release and attack stay ducked instead of pumping the music.
+      const last = merged[merged.length - 1];
+      if (last && region.start - attack <= last.end + release) {
+        last.end = Math.max(last.end, region.end);
+      } else {
+        merged.push({ ...region });
+      }
+    });
+
+  return merged.flatMap((region) => [
+    { time: region.start - attack, db: 0 },
+    { time: region.start, db: settings.depthDb },
+    { time: region.end, db: settings.depthDb },
+    { time: region.end + release, db: 0 },
+  ]);
+};
+
+// Gain multiplier at `time`; ramps are linear in dB.
+export const getDuckingGain = (envelope: DuckingPoint[], time: number): number => {
+  const nextIndex = envelope.findIndex((point) => point.time > time);
+  if (nextIndex <= 0) {
+    return 1;
+  }
+  const previous = envelope[nextIndex - 1];
+  const next = envelope[nextIndex];
+  const progress = (time - previous.time) / (next.time - previous.time);
+  return dbToGain(previous.db + (next.db - previous.db) * progress);
+};
+
+// Exponential ramps are linear in dB, which keeps the preview on the same curve as the render.
+export const scheduleDuckingEnvelope = (
+  param: AudioParam,
+  envelope: DuckingPoint[],
+  startAt: number,
+  clipTime: number
+) => {
+  param.cancelScheduledValues(startAt);
+  param.setValueAtTime(getDuckingGain(envelope, clipTime), startAt);
+  envelope
+    .filter((point) => point.time > clipTime)
+    .forEach((point) => {
+      param.exponentialRampToValueAtTime(dbToGain(point.db), startAt + point.time - clipTime);
+    });
+};
+
+// A browser-side stand-in for silencedetect: 20 ms RMS windows against the same noise floor.
+export const findSpeechRegions = (samples: Float32Array, sampleRate: number): SpeechRegion[] => {
+  const windowSize = Math.max(1, Math.round(sampleRate * ANALYSIS_WINDOW_SECONDS));
+  const threshold = Math.pow(10, SPEECH_NOISE_DB / 20);
+  const regions: SpeechRegion[] = [];
+  let speechStart: number | null = null;
+  let quietSince: number | null = null;
+
+  for (let offset = 0; offset < samples.length; offset += windowSize) {
+    const end = Math.min(samples.length, offset + windowSize);
+    let sum = 0;
+    for (let index = offset; index < end; index += 1) {
+      sum += samples[index] * samples[index];
+    }
+    const loud = Math.sqrt(sum / (end - offset)) >= threshold;
+    if (loud) {
+      speechStart ??= offset / sampleRate;
+      quietSince = null;
+      continue;
+    }
+    if (speechStart === null) {
+      continue;
+    }
+    quietSince ??= offset / sampleRate;
+    if (end / sampleRate - quietSince >= SPEECH_MIN_SILENCE_SECONDS) {
+      regions.push({ start: speechStart, end: quietSince });
+      speechStart = null;
+      quietSince = null;
+    }
+  }
+
+  if (speechStart !== null) {
+    regions.push({ start: speechStart, end: quietSince ?? samples.length / sampleRate });
+  }
+  return regions;
+};
+
+// Clips without an audio track (or too large to decode in memory) have no speech to duck under.
+export const analyzeSpeech = async (url: string): Promise<SpeechRegion[]> => {
+  const blob = await (await fetch(url)).blob();
+  if (blob.size > MAX_ANALYSIS_BYTES) {
+    return [];
+  }
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    return [];
+  }
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    for (let index = 0; index < data.length; index += 1) {
+      samples[index] += data[index] / buffer.numberOfChannels;
+    }
+  }
+  return findSpeechRegions(samples, buffer.sampleRate);
+};
@@ -0,0 +1,221 @@
+import { ExportQuality, FrameFit, LibraryAsset, OutputFormat, VideoAsset } from './types';
+
+export const MANIFEST_FILE_ACCEPT = '.csv,.json,text/csv,application/json';
+
+const QUALITIES: ExportQuality[] = ['720p', '1080p', '4k'];
+const FORMATS: OutputFormat[] = ['16:9', '9:16', '1:1'];
+const FITS: FrameFit[] = ['crop', 'fit', 'blur'];
+
+// Older spreadsheets name the first two columns after the original intro/body layout.
+const CLIP_COLUMN_ALIASES: Record<string, number> = {
+  intro: 0,
+  video1: 0,
+  body: 1,
+  video2: 1,
+};
+
+export type ManifestRecord = Record<string, unknown>;
+
+// `row` is the line a CSV row starts on, or the item's position in a JSON manifest.
+export interface ManifestEntry {
+  row: number;
+  record: ManifestRecord;
+}
+
+export interface ManifestRow {
+  row: number;
+  name: string;
+  clips: VideoAsset[];
+  bgm: LibraryAsset | null;
+  exportQuality?: ExportQuality;
+  outputFormat?: OutputFormat;
+  frameFit?: FrameFit;
+  fields: Record<string, string>;
+  errors: string[];
+}
+
+const parseCsv = (text: string): ManifestEntry[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+        if (char === '\n') {
+          line += 1;
+        }
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = '';
+      line += 1;
+      rowLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push({ line: rowLine, cells: row });
+
+  const [header, ...body] = rows.filter(({ cells }) => cells.some((value) => value.trim()));
+  const keys = (header?.cells ?? []).map((key) => key.trim());
+  return body.map(({ line: row, cells }) => ({
+    row,
+    record: Object.fromEntries(keys.map((key, index) => [key, (cells[index] ?? '').trim()])),
+  }));
+};
+
+const parseJson = (text: string): ManifestEntry[] => {
+  const data = JSON.parse(text) as unknown;
+  const items = Array.isArray(data) ? data : (data as { items?: unknown })?.items;
+  if (!Array.isArray(items)) {
+    throw new Error('JSON manifests must be an array of rows or an object with an "items" array.');
+  }
+  return items.map((item, index) => ({
+    row: index + 1,
+    record: item && typeof item === 'object' && !Array.isArray(item) ? (item as ManifestRecord) : {},
+  }));
+};
+
+export const parseManifest = (fileName: string, text: string): ManifestEntry[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(content);
+  const entries = isJson ? parseJson(content) : parseCsv(content);
+  if (entries.length === 0) {
+    throw new Error('The manifest has no rows.');
+  }
+  return entries;
+};
+
+const normalizeFileName = (value: string) =>
+  value
+    .trim()
+    .split(/[\\/]/)
+    .pop()!
+    .toLowerCase();
+
+const stripExtension = (value: string) => value.replace(/\.[^/.]+$/, '');
+
+// Matches "Intro_01.mp4", "intro_01" and "C:\exports\Intro_01.mp4" against the same asset.
+const findByFileName = <T extends { name: string }>(assets: T[], value: string): T | null => {
+  const target = normalizeFileName(value);
+  return (
+    assets.find((asset) => asset.name.toLowerCase() === target) ??
+    assets.find((asset) => stripExtension(asset.name.toLowerCase()) === stripExtension(target)) ??
+    null
+  );
+};
+
+const getClipColumn = (key: string) => {
+  const normalized = key.toLowerCase().replace(/[\s_-]/g, '');
+  if (normalized in CLIP_COLUMN_ALIASES) {
+    return CLIP_COLUMN_ALIASES[normalized];
+  }
+  const match = normalized.match(/^clip(\d+)$/);
+  return match ? Number(match[1]) - 1 : null;
+};
+
+const readString = (record: ManifestRecord, ...keys: string[]) => {
+  for (const [key, value] of Object.entries(record)) {
+    if (keys.includes(key.toLowerCase().replace(/[\s_-]/g, '')) && value !== null && value !== undefined) {
+      return String(value).trim();
+    }
+  }
+  return '';
+};
+
+export const resolveManifestRows = (
+  entries: ManifestEntry[],
+  videos: VideoAsset[],
+  audioLibrary: LibraryAsset[]
+): ManifestRow[] =>
+  entries.map(({ row, record }) => {
+    const errors: string[] = [];
+    const clipNames: string[] = [];
+    const fields: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(record)) {
+      const clipIndex = getClipColumn(key);
+      if (clipIndex !== null) {
+        clipNames[clipIndex] = String(value ?? '').trim();
+      } else if (key.toLowerCase().replace(/[\s_-]/g, '') === 'clips' && Array.isArray(value)) {
+        value.forEach((clip, clipPosition) => {
+          clipNames[clipPosition] = String(clip ?? '').trim();
+        });
+      } else if (/^[a-zA-Z0-9_]+$/.test(key) && typeof value !== 'object') {
+        // Every other column doubles as a text-layer field, so `name` also fills {{name}}.
+        fields[key] = String(value ?? '').trim();
+      }
+    }
+
+    const clips: VideoAsset[] = [];
+    if (!clipNames[0]) {
+      errors.push('Clip 1 is missing.');
+    }
+    // Blank trailing clip columns are fine; a blank one before a filled one would shift the sequence.
+    const lastClipIndex = clipNames.reduce((last, clipName, clipIndex) => (clipName ? clipIndex : last), -1);
+    for (let clipIndex = 0; clipIndex <= lastClipIndex; clipIndex += 1) {
+      const clipName = clipNames[clipIndex];
+      if (!clipName) {
+        if (clipIndex > 0) {
+          errors.push(`Clip ${clipIndex + 1} is missing.`);
+        }
+        continue;
+      }
+      const match = findByFileName(videos, clipName);
+      if (match) {
+        clips.push(match);
+      } else {
+        errors.push(`Clip ${clipIndex + 1} "${clipName}" is not imported in the Workstation.`);
+      }
+    }
+
+    const bgmName = readString(record, 'bgm');
+    const bgm = bgmName ? findByFileName(audioLibrary, bgmName) : null;
+    if (bgmName && !bgm) {
+      errors.push(`BGM "${bgmName}" is not in the Asset Library.`);
+    }
+
+    const quality = readString(record, 'quality', 'exportquality').toLowerCase();
+    if (quality && !QUALITIES.includes(quality as ExportQuality)) {
+      errors.push(`Quality "${quality}" must be one of ${QUALITIES.join(', ')}.`);
+    }
+    const format = readString(record, 'format', 'outputformat');
+    if (format && !FORMATS.includes(format as OutputFormat)) {
+      errors.push(`Format "${format}" must be one of ${FORMATS.join(', ')}.`);
+    }
+    const fit = readString(record, 'fit', 'framefit').toLowerCase();
+    if (fit && !FITS.includes(fit as FrameFit)) {
+      errors.push(`Fit "${fit}" must be one of ${FITS.join(', ')}.`);
+    }
+
+    return {
+      row,
+      name: readString(record, 'name'),
+      clips,
+      bgm,
+      exportQuality: quality ? (quality as ExportQuality) : undefined,
+      outputFormat: format ? (format as OutputFormat) : undefined,
+      frameFit: fit ? (fit as FrameFit) : undefined,
+      fields,
+      errors,
+    };
+  });
@@ -68,6 +68,23 @@ export const deleteMediaBlob = async (id: string): Promise<void> => {
   await withStore('readwrite', (store) => store.delete(id));
 };
 
+// Web Crypto has no streaming digest, so larger files are hashed by the server after upload instead.
+const MAX_HASH_BYTES = 512 * 1024 * 1024;
+
+// Lets the render server recognise media it already holds, so shared files are uploaded once.
+export const hashBlob = async (blob: Blob): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle || blob.size > MAX_HASH_BYTES) {
+    return null;
+  }
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  } catch (error) {
+    console.warn('[media] Unable to hash blob.', error);
+    return null;
+  }
+};
+
 export const loadMediaUrl = async (id: string): Promise<string | null> => {
   try {
     const blob = await loadMediaBlob(id);
@@ -0,0 +1,52 @@
+import { LoudnessMeasurement, OutputProfile, RenderOutput } from './types';
+
+export const MAX_OUTPUT_PROFILES = 6;
+
+// Streaming platforms, podcasts / Apple, and EBU R128 broadcast.
+export const LOUDNESS_TARGETS = [-14, -16, -23];
+export const MIN_LOUDNESS_TARGET = -30;
+export const MAX_LOUDNESS_TARGET = -8;
+
+export const DEFAULT_OUTPUT_PROFILE: OutputProfile = { quality: '720p', format: '16:9' };
+
+// Matches the output ids the render server uses in `/api/download/:jobId?output=`.
+export const getOutputProfileId = (profile: OutputProfile) =>
+  `${profile.quality}-${profile.format.replace(':', 'x')}`;
+
+export const formatOutputProfile = (profile: OutputProfile) =>
+  typeof profile.loudnessTarget === 'number'
+    ? `${profile.quality} · ${profile.format} · ${profile.loudnessTarget} LUFS`
+    : `${profile.quality} · ${profile.format}`;
+
+export const formatLoudness = (loudness: LoudnessMeasurement) =>
+  `${loudness.integrated.toFixed(1)} LUFS · ${loudness.truePeak.toFixed(1)} dBTP`;
+
+// The server records the measurement before and after normalization; the UI shows what was delivered.
+const readLoudness = (value: unknown): LoudnessMeasurement | undefined => {
+  const measured = (value as { output?: Partial<LoudnessMeasurement> } | null)?.output ?? value;
+  const { integrated, truePeak } = (measured ?? {}) as Partial<LoudnessMeasurement>;
+  return typeof integrated === 'number' && typeof truePeak === 'number' ? { integrated, truePeak } : undefined;
+};
+
+export const dedupeOutputProfiles = (profiles: OutputProfile[]) =>
+  profiles
+    .filter(
+      (profile, index) =>
+        profiles.findIndex((other) => getOutputProfileId(other) === getOutputProfileId(profile)) === index
+    )
+    .slice(0, MAX_OUTPUT_PROFILES);
+
+export const readRenderOutputs = (value: unknown): RenderOutput[] =>
+  (Array.isArray(value) ? value : []).flatMap((output) => {
+    if (!output || typeof output.id !== 'string' || typeof output.url !== 'string') {
+      return [];
+    }
+    const label =
+      typeof output.label === 'string'
+        ? output.label
+        : typeof output.quality === 'string' && typeof output.format === 'string'
+          ? formatOutputProfile(output as OutputProfile)
+          : output.id;
+    const loudness = readLoudness(output.loudness);
+    return [{ id: output.id, label, url: output.url, ...(loudness ? { loudness } : {}) }];
+  });
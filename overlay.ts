@@ -0,0 +1,37 @@
+import { LibraryAsset, OverlayAsset, OverlayCorner } from './types';
+
+export const OVERLAY_CORNERS: OverlayCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+// Scale and margin are fractions of the frame's short edge so a logo keeps its size across formats.
+export const MIN_OVERLAY_SCALE = 0.05;
+export const MAX_OVERLAY_SCALE = 0.5;
+export const MAX_OVERLAY_MARGIN = 0.15;
+
+export const DEFAULT_OVERLAY_SETTINGS: Omit<OverlayAsset, 'id' | 'name' | 'url'> = {
+  corner: 'top-right',
+  margin: 0.04,
+  scale: 0.15,
+  opacity: 0.9,
+  startTime: 0,
+  endTime: null,
+};
+
+export const OVERLAY_IMAGE_ACCEPT = 'image/png,image/svg+xml';
+
+export const isOverlayImageFile = (file: File) =>
+  file.type === 'image/png' || file.type === 'image/svg+xml' || /\.(png|svg)$/i.test(file.name);
+
+export const createOverlayFromLibrary = (
+  asset: LibraryAsset,
+  settings: Omit<OverlayAsset, 'id' | 'name' | 'url'> = DEFAULT_OVERLAY_SETTINGS
+): OverlayAsset => ({
+  ...settings,
+  id: asset.id,
+  name: asset.name,
+  url: asset.url,
+});
+
+export const getOverlayPlacement = (corner: OverlayCorner) => ({
+  vertical: corner.startsWith('top') ? ('top' as const) : ('bottom' as const),
+  horizontal: corner.endsWith('left') ? ('left' as const) : ('right' as const),
+});
@@ -1,78 +1,380 @@
 import React from 'react';
-import { AbsoluteFill, Audio, OffthreadVideo, Sequence, useVideoConfig } from 'remotion';
-import { BGMMode } from '../types';
+import {
+  AbsoluteFill,
+  Audio,
+  Img,
+  OffthreadVideo,
+  Sequence,
+  interpolate,
+  spring,
+  useCurrentFrame,
+  useVideoConfig,
+} from 'remotion';
+import {
+  CaptionCue,
+  CaptionStyle,
+  DuckingSettings,
+  FrameFit,
+  OverlayAsset,
+  SpeechRegion,
+  TextLayer,
+  TransitionSettings,
+  TransitionType,
+} from '../types';
+import { buildClipTimeline, getTransitionFrames, toClipFrames } from '../timeline';
+import { DEFAULT_CAPTION_STYLE, getCaptionFontSize } from '../captions';
+import { getOverlayPlacement } from '../overlay';
+import { fillTemplate, getTextLayerOffset, getTextLayerStyles } from '../textLayers';
+import { buildDuckingEnvelope, getDuckingGain } from '../ducking';
+import { getCueWindow } from '../audioCues';
 
-interface BgmConfig {
-  path: string | null;
+interface AudioCueConfig {
+  path: string;
   duration: number;
   playLength: number;
   volume: number;
-  mode: BGMMode;
+  fadeIn: number;
+  fadeOut: number;
+  anchorClip: number | null;
   startTime: number;
   loop: boolean;
+  ducking?: DuckingSettings | null;
+}
+
+type OverlayConfig = Omit<OverlayAsset, 'id' | 'name' | 'url'> & { path: string };
+
+export interface RenderClip {
+  path: string;
+  duration: number;
+  captions?: CaptionCue[];
+  // Seconds from the start of the clip, found by the server's silencedetect pass.
+  speech?: SpeechRegion[];
+  // Gain for the clip's own audio; 0 when the clip is muted.
+  volume?: number;
 }
 
 export interface RenderProps {
-  video1Path: string;
-  video2Path: string;
-  video1Duration: number;
-  video2Duration: number;
-  bgm?: BgmConfig | null;
+  clips: RenderClip[];
+  transition?: TransitionSettings | null;
+  captionStyle?: CaptionStyle | null;
+  overlay?: OverlayConfig | null;
+  textLayers?: TextLayer[];
+  textFields?: Record<string, string>;
+  frameFit?: FrameFit;
+  audioCues?: AudioCueConfig[];
 }
 
 const toFrames = (frames: number, minFrames = 0) => Math.max(minFrames, Math.round(frames));
 
-const getBgmStart = (mode: BGMMode, video1Frames: number) => {
-  if (mode === BGMMode.VIDEO2_ONLY) {
-    return video1Frames;
+const clamp01 = { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' } as const;
+
+// Returns 0..1 visibility/level for a clip that fades in over `inFrames` and out over `outFrames`.
+const getTransitionLevel = (
+  type: TransitionType,
+  frame: number,
+  durationInFrames: number,
+  inFrames: number,
+  outFrames: number
+) => {
+  let level = 1;
+  if (inFrames > 0) {
+    const fadeStart = type === TransitionType.DIP_TO_BLACK ? inFrames / 2 : 0;
+    level = Math.min(level, interpolate(frame, [fadeStart, inFrames], [0, 1], clamp01));
+  }
+  if (outFrames > 0) {
+    const outStart = durationInFrames - outFrames;
+    const fadeEnd = type === TransitionType.DIP_TO_BLACK ? outStart + outFrames / 2 : durationInFrames;
+    level = Math.min(level, interpolate(frame, [outStart, fadeEnd], [1, 0], clamp01));
   }
-  return 0;
+  return level;
 };
 
-const getBgmMaxFrames = (mode: BGMMode, video1Frames: number, video2Frames: number) => {
-  if (mode === BGMMode.VIDEO1_ONLY) {
-    return video1Frames;
+// Fades are counted from the edges of the cue's play window, so a loop does not fade at every repeat.
+const getCueFadeLevel = (frame: number, durationInFrames: number, inFrames: number, outFrames: number) => {
+  let level = 1;
+  if (inFrames > 0) {
+    level = Math.min(level, interpolate(frame, [0, inFrames], [0, 1], clamp01));
+  }
+  if (outFrames > 0) {
+    level = Math.min(level, interpolate(frame, [durationInFrames - outFrames, durationInFrames], [1, 0], clamp01));
   }
-  if (mode === BGMMode.VIDEO2_ONLY) {
-    return video2Frames;
+  return level;
+};
+
+const FramedVideo: React.FC<{
+  src: string;
+  fit: FrameFit;
+  volume: (frame: number) => number;
+}> = ({ src, fit, volume }) => {
+  if (fit === 'crop') {
+    return <OffthreadVideo src={src} volume={volume} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />;
+  }
+
+  return (
+    <AbsoluteFill>
+      {fit === 'blur' && (
+        <AbsoluteFill style={{ overflow: 'hidden' }}>
+          <OffthreadVideo
+            src={src}
+            muted
+            style={{
+              width: '100%',
+              height: '100%',
+              objectFit: 'cover',
+              filter: 'blur(40px) brightness(0.7)',
+              transform: 'scale(1.15)',
+            }}
+          />
+        </AbsoluteFill>
+      )}
+      <OffthreadVideo src={src} volume={volume} style={{ width: '100%', height: '100%', objectFit: 'contain' }} />
+    </AbsoluteFill>
+  );
+};
+
+const CAPTION_JUSTIFY: Record<CaptionStyle['position'], React.CSSProperties['justifyContent']> = {
+  top: 'flex-start',
+  middle: 'center',
+  bottom: 'flex-end',
+};
+
+// Cue times are relative to the clip, which lines up with the frame count inside its Sequence.
+const CaptionTrack: React.FC<{ cues: CaptionCue[]; style: CaptionStyle }> = ({ cues, style }) => {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const time = frame / fps;
+  const cue = cues.find((entry) => time >= entry.start && time < entry.end);
+  if (!cue) {
+    return null;
   }
-  return video1Frames + video2Frames;
+
+  const fontSize = getCaptionFontSize(style, width, height);
+  return (
+    <AbsoluteFill
+      style={{
+        justifyContent: CAPTION_JUSTIFY[style.position],
+        alignItems: 'center',
+        padding: `${Math.round(height * 0.08)}px ${Math.round(width * 0.06)}px`,
+      }}
+    >
+      <div
+        style={{
+          fontFamily: style.fontFamily,
+          fontSize,
+          fontWeight: 700,
+          lineHeight: 1.25,
+          color: style.textColor,
+          textAlign: 'center',
+          whiteSpace: 'pre-line',
+          padding: style.background ? `${fontSize * 0.2}px ${fontSize * 0.45}px` : 0,
+          borderRadius: fontSize * 0.2,
+          backgroundColor: style.background ? `rgba(0, 0, 0, ${style.backgroundOpacity})` : 'transparent',
+          textShadow: style.background ? 'none' : '0 2px 8px rgba(0, 0, 0, 0.85)',
+        }}
+      >
+        {cue.text}
+      </div>
+    </AbsoluteFill>
+  );
+};
+
+const OverlayImage: React.FC<{ overlay: OverlayConfig }> = ({ overlay }) => {
+  const { width, height } = useVideoConfig();
+  const shortEdge = Math.min(width, height);
+  const { vertical, horizontal } = getOverlayPlacement(overlay.corner);
+  const margin = Math.round(overlay.margin * shortEdge);
+
+  return (
+    <AbsoluteFill style={{ pointerEvents: 'none' }}>
+      <Img
+        src={overlay.path}
+        style={{
+          position: 'absolute',
+          [vertical]: margin,
+          [horizontal]: margin,
+          width: Math.round(overlay.scale * shortEdge),
+          height: 'auto',
+          opacity: overlay.opacity,
+        }}
+      />
+    </AbsoluteFill>
+  );
+};
+
+const TEXT_EXIT_FRAMES = 10;
+
+const TextLayerCard: React.FC<{
+  layer: TextLayer;
+  fields: Record<string, string>;
+  durationInFrames: number;
+}> = ({ layer, fields, durationInFrames }) => {
+  const frame = useCurrentFrame();
+  const { fps, width, height } = useVideoConfig();
+  const unit = (size: number) => `${(size * Math.min(width, height)) / 1080}px`;
+  const styles = getTextLayerStyles(layer.preset, unit);
+  const enter = spring({ frame, fps, config: { damping: 200 } });
+  const exit = interpolate(frame, [durationInFrames - TEXT_EXIT_FRAMES, durationInFrames], [1, 0], clamp01);
+  const title = fillTemplate(layer.text, fields);
+  const subtitle = fillTemplate(layer.subtitle, fields);
+
+  return (
+    <div style={styles.container}>
+      <div
+        style={{
+          ...styles.box,
+          opacity: Math.min(enter, exit),
+          transform: getTextLayerOffset(layer.preset, 1 - enter, unit),
+        }}
+      >
+        {title && <div style={styles.title}>{title}</div>}
+        {subtitle && <div style={styles.subtitle}>{subtitle}</div>}
+      </div>
+    </div>
+  );
+};
+
+const TransitionClip: React.FC<{
+  clip: RenderClip;
+  type: TransitionType;
+  fit: FrameFit;
+  captionStyle: CaptionStyle;
+  durationInFrames: number;
+  inFrames: number;
+  outFrames: number;
+}> = ({ clip, type, fit, captionStyle, durationInFrames, inFrames, outFrames }) => {
+  const frame = useCurrentFrame();
+  const style: React.CSSProperties = {};
+
+  if (type === TransitionType.WIPE) {
+    const reveal = inFrames > 0 ? interpolate(frame, [0, inFrames], [0, 100], clamp01) : 100;
+    style.clipPath = `inset(0 ${100 - reveal}% 0 0)`;
+  } else if (type === TransitionType.CROSSFADE) {
+    // The outgoing clip stays opaque underneath so the blend never dips toward the background.
+    style.opacity = inFrames > 0 ? interpolate(frame, [0, inFrames], [0, 1], clamp01) : 1;
+  } else if (type === TransitionType.DIP_TO_BLACK) {
+    style.opacity = getTransitionLevel(type, frame, durationInFrames, inFrames, outFrames);
+  }
+
+  return (
+    <AbsoluteFill style={style}>
+      <FramedVideo
+        src={clip.path}
+        fit={fit}
+        volume={(audioFrame) =>
+          (clip.volume ?? 1) * getTransitionLevel(type, audioFrame, durationInFrames, inFrames, outFrames)
+        }
+      />
+      {clip.captions && clip.captions.length > 0 && <CaptionTrack cues={clip.captions} style={captionStyle} />}
+    </AbsoluteFill>
+  );
 };
 
 export const HeygenComposition: React.FC<RenderProps> = ({
-  video1Path,
-  video2Path,
-  video1Duration,
-  video2Duration,
-  bgm,
+  clips,
+  transition,
+  captionStyle,
+  overlay,
+  textLayers = [],
+  textFields = {},
+  frameFit = 'crop',
+  audioCues = [],
 }) => {
   const { fps } = useVideoConfig();
-  const video1Frames = toFrames(video1Duration * fps, 1);
-  const video2Frames = toFrames(video2Duration * fps, 0);
+  const playableClips = (clips || []).filter((clip) => Boolean(clip.path));
+  const transitionType = transition?.type ?? TransitionType.NONE;
+  const timeline = buildClipTimeline(
+    toClipFrames(playableClips.map((clip) => clip.duration), fps),
+    getTransitionFrames(transition, fps)
+  );
+
+  // Speech in sequence seconds, shared by every cue that ducks.
+  const speechRegions = playableClips.flatMap((clip, index) =>
+    (clip.speech ?? []).map((region) => ({
+      start: region.start + timeline.starts[index] / fps,
+      end: region.end + timeline.starts[index] / fps,
+    }))
+  );
+
+  // Cue times are relative to the anchor's window and never spill past its end.
+  const cueSequences = audioCues
+    .filter((cue) => Boolean(cue.path))
+    .map((cue, index) => {
+      const window = getCueWindow(cue.anchorClip, timeline);
+      const cueFrames = toFrames(cue.playLength * fps);
+      const offset = Math.min(toFrames(cue.startTime * fps), Math.max(0, window.frames - cueFrames));
+      return {
+        key: `${index}-${cue.path}`,
+        cue,
+        from: window.start + offset,
+        durationInFrames: Math.min(cueFrames, Math.max(0, window.frames - offset)),
+        fadeInFrames: toFrames((cue.fadeIn || 0) * fps),
+        fadeOutFrames: toFrames((cue.fadeOut || 0) * fps),
+        duckingEnvelope: cue.ducking ? buildDuckingEnvelope(speechRegions, cue.ducking) : [],
+      };
+    })
+    .filter((item) => item.durationInFrames > 0);
+
+  const overlayStart = overlay ? Math.min(toFrames(overlay.startTime * fps), timeline.totalFrames) : 0;
+  const overlayEnd = overlay?.endTime ? Math.min(toFrames(overlay.endTime * fps), timeline.totalFrames) : timeline.totalFrames;
+  const overlayFrames = Math.max(0, overlayEnd - overlayStart);
 
-  const bgmFrames = bgm ? toFrames(bgm.playLength * fps, 0) : 0;
-  const bgmOffsetFrames = bgm ? toFrames(bgm.startTime * fps, 0) : 0;
-  const bgmTargetFrames = bgm ? getBgmMaxFrames(bgm.mode, video1Frames, video2Frames) : 0;
-  const bgmMaxOffset = bgm ? Math.max(0, bgmTargetFrames - bgmFrames) : 0;
-  const bgmOffset = bgm ? Math.min(bgmOffsetFrames, bgmMaxOffset) : 0;
-  const bgmStart = bgm ? getBgmStart(bgm.mode, video1Frames) + bgmOffset : 0;
-  const bgmPlayFrames = bgm ? Math.min(bgmFrames, Math.max(0, bgmTargetFrames - bgmOffset)) : 0;
+  // Text layer times are relative to their anchor clip and never spill past its end.
+  const textSequences = textLayers
+    .filter((layer) => layer.anchorClip < playableClips.length)
+    .map((layer) => {
+      const clipFrames = timeline.frames[layer.anchorClip];
+      const startFrame = Math.min(toFrames(layer.startTime * fps), clipFrames);
+      const endFrame = Math.min(toFrames(layer.endTime * fps), clipFrames);
+      return {
+        layer,
+        from: timeline.starts[layer.anchorClip] + startFrame,
+        durationInFrames: endFrame - startFrame,
+      };
+    })
+    .filter((item) => item.durationInFrames > 0);
 
   return (
     <AbsoluteFill style={{ backgroundColor: 'black' }}>
-      <Sequence from={0} durationInFrames={video1Frames}>
-        <OffthreadVideo src={video1Path} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-      </Sequence>
-      {video2Path && video2Frames > 0 && (
-        <Sequence from={video1Frames} durationInFrames={video2Frames}>
-          <OffthreadVideo src={video2Path} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+      {playableClips.map((clip, index) => (
+        <Sequence
+          key={`${index}-${clip.path}`}
+          from={timeline.starts[index]}
+          durationInFrames={timeline.frames[index]}
+        >
+          <TransitionClip
+            clip={clip}
+            type={transitionType}
+            fit={frameFit}
+            captionStyle={captionStyle ?? DEFAULT_CAPTION_STYLE}
+            durationInFrames={timeline.frames[index]}
+            inFrames={index > 0 ? timeline.overlaps[index - 1] : 0}
+            outFrames={timeline.overlaps[index] ?? 0}
+          />
         </Sequence>
-      )}
-      {bgm?.path && bgmPlayFrames > 0 && (
-        <Sequence from={bgmStart} durationInFrames={bgmPlayFrames}>
-          <Audio src={bgm.path} volume={bgm.volume} loop={bgm.loop} />
+      ))}
+      {textSequences.map(({ layer, from, durationInFrames }) => (
+        <Sequence key={layer.id} from={from} durationInFrames={durationInFrames}>
+          <TextLayerCard layer={layer} fields={textFields} durationInFrames={durationInFrames} />
+        </Sequence>
+      ))}
+      {overlay?.path && overlayFrames > 0 && (
+        <Sequence from={overlayStart} durationInFrames={overlayFrames}>
+          <OverlayImage overlay={overlay} />
         </Sequence>
       )}
+      {cueSequences.map(({ key, cue, from, durationInFrames, fadeInFrames, fadeOutFrames, duckingEnvelope }) => (
+        <Sequence key={key} from={from} durationInFrames={durationInFrames}>
+          <Audio
+            src={cue.path}
+            volume={(audioFrame) =>
+              cue.volume *
+              getCueFadeLevel(audioFrame, durationInFrames, fadeInFrames, fadeOutFrames) *
+              getDuckingGain(duckingEnvelope, (from + audioFrame) / fps)
+            }
+            loop={cue.loop}
+          />
+        </Sequence>
+      ))}
     </AbsoluteFill>
   );
 };
@@ -1,12 +1,14 @@
 import React from 'react';
 import { Composition } from 'remotion';
 import { HeygenComposition, RenderProps } from './HeygenComposition';
+import { buildClipTimelineFromSeconds } from '../timeline';
+import { ExportQuality, OutputFormat } from '../types';
 
 const FPS = 24;
 
-type RenderInputProps = RenderProps & { exportQuality?: '720p' | '1080p' | '4k' };
+type RenderInputProps = RenderProps & { exportQuality?: ExportQuality; outputFormat?: OutputFormat };
 
-const getDimensions = (quality: '720p' | '1080p' | '4k') => {
+const getLandscapeDimensions = (quality: ExportQuality) => {
   if (quality === '4k') {
     return { width: 3840, height: 2160 };
   }
@@ -16,25 +18,41 @@ const getDimensions = (quality: '720p' | '1080p' | '4k') => {
   return { width: 1920, height: 1080 };
 };
 
+// Quality names the short edge, so 1080p vertical is 1080x1920 and 1080p square is 1080x1080.
+const getDimensions = (quality: ExportQuality, format: OutputFormat) => {
+  const landscape = getLandscapeDimensions(quality);
+  if (format === '9:16') {
+    return { width: landscape.height, height: landscape.width };
+  }
+  if (format === '1:1') {
+    return { width: landscape.height, height: landscape.height };
+  }
+  return landscape;
+};
+
 export const RemotionRoot: React.FC = () => {
   return (
     <Composition<RenderInputProps>
       id="heygen-cms"
       component={HeygenComposition}
       defaultProps={{
-        video1Path: '',
-        video2Path: '',
-        video1Duration: 10,
-        video2Duration: 10,
-        bgm: null,
+        clips: [],
+        transition: null,
+        captionStyle: null,
+        overlay: null,
+        textLayers: [],
+        textFields: {},
+        frameFit: 'crop',
+        audioCues: [],
       }}
       fps={FPS}
       width={1280}
       height={720}
       calculateMetadata={({ props }) => {
-        const totalSeconds = Math.max(1, (props.video1Duration || 0) + (props.video2Duration || 0));
-        const durationInFrames = Math.max(1, Math.round(totalSeconds * FPS));
-        const dimensions = getDimensions(props.exportQuality || '720p');
+        const clipDurations = (props.clips || []).filter((clip) => Boolean(clip.path)).map((clip) => clip.duration);
+        const timeline = buildClipTimelineFromSeconds(clipDurations, props.transition, FPS);
+        const durationInFrames = Math.max(FPS, timeline.totalFrames);
+        const dimensions = getDimensions(props.exportQuality || '720p', props.outputFormat || '16:9');
         return {
           durationInFrames,
           fps: FPS,
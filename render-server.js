@@ -24,10 +24,17 @@ const UPLOAD_DIR = path.join(RENDER_DIR, 'uploads');
 const OUTPUT_DIR = path.join(RENDER_DIR, 'output');
 const BUNDLE_DIR = path.join(RENDER_DIR, 'bundle');
 const TRANSCODE_DIR = path.join(UPLOAD_DIR, 'transcoded');
+const INCOMING_DIR = path.join(UPLOAD_DIR, 'incoming');
+const UPLOAD_SESSION_DIR = path.join(UPLOAD_DIR, 'sessions');
 const CACHE_DIR = path.join(RENDER_DIR, 'cache');
 const CACHE_VIDEO_DIR = path.join(CACHE_DIR, 'video');
 const CACHE_AUDIO_DIR = path.join(CACHE_DIR, 'audio');
 const JOBS_FILE = path.join(RENDER_DIR, 'jobs.json');
+const BATCHES_FILE = path.join(RENDER_DIR, 'batches.json');
+const QUEUE_STATE_FILE = path.join(RENDER_DIR, 'queue.json');
+const SCHEDULE_FILE = path.join(RENDER_DIR, 'schedule.json');
+const UPLOAD_INDEX_FILE = path.join(RENDER_DIR, 'uploads.json');
+const CACHE_STATE_FILE = path.join(RENDER_DIR, 'cache.json');
 
 const COMPOSITION_ID = 'heygen-cms';
 const ENTRY_POINT = path.join(ROOT_DIR, 'remotion', 'index.tsx');
@@ -105,6 +112,21 @@ const resolveVideoBitrate = (exportQuality) => {
   return byQuality[exportQuality] || '6M';
 };
 
+const parsePositiveInt = (value, fallback) => {
+  const num = Number(value);
+  return Number.isFinite(num) && num >= 1 ? Math.floor(num) : fallback;
+};
+
+const parsePositiveFloat = (value, fallback) => {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : fallback;
+};
+
+// Jobs run side by side, but each stage has its own slot count: ffmpeg normalization is light
+// enough to overlap, while every Remotion render already fans out across RENDER_CONCURRENCY tabs.
+const MAX_PARALLEL_JOBS = parsePositiveInt(process.env.RENDER_MAX_PARALLEL_JOBS, 2);
+const NORMALIZE_SLOTS = parsePositiveInt(process.env.RENDER_NORMALIZE_SLOTS, MAX_PARALLEL_JOBS);
+
 const REMOTION_SERVE_PORT = (() => {
   const raw = Number(process.env.REMOTION_SERVE_PORT);
   if (Number.isFinite(raw) && raw > 0) {
@@ -113,6 +135,28 @@ const REMOTION_SERVE_PORT = (() => {
   return null;
 })();
 
+const parseToggle = (value, fallback) => {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (['0', 'false', 'off', 'no', 'disable'].includes(text)) {
+    return false;
+  }
+  if (['1', 'true', 'on', 'yes', 'enable'].includes(text)) {
+    return true;
+  }
+  return fallback;
+};
+
+// Interrupted jobs are queued again on boot; the counter stops a job that crashes the server from looping forever.
+const RESUME_INTERRUPTED_JOBS = parseToggle(process.env.RENDER_RESUME_JOBS, true);
+const MAX_JOB_RESUMES = parsePositiveInt(process.env.RENDER_MAX_RESUMES, 2);
+
+// Only transient failures are retried; each retry waits twice as long as the one before.
+const MAX_JOB_ATTEMPTS = parsePositiveInt(process.env.RENDER_MAX_ATTEMPTS, 3);
+const RETRY_BASE_DELAY_MS = parsePositiveInt(process.env.RENDER_RETRY_DELAY_MS, 5000);
+
+// A fixed Remotion port can only serve one render at a time.
+const RENDER_SLOTS = REMOTION_SERVE_PORT === null ? parsePositiveInt(process.env.RENDER_RENDER_SLOTS, 1) : 1;
+
 const getFreePort = () =>
   new Promise((resolve, reject) => {
     const server = net.createServer();
@@ -169,6 +213,240 @@ const resolveVolumeGain = (bgm) => {
   return 1;
 };
 
+// Same limit as MAX_FADE_SECONDS in audioLevels.ts.
+const MAX_BGM_FADE_SECONDS = 10;
+
+const resolveBgmFade = (value) => clampNumber(value, 0, MAX_BGM_FADE_SECONDS, 0);
+
+// Mirrors DEFAULT_DUCKING and its limits in ducking.ts.
+const MIN_DUCK_DEPTH_DB = -30;
+const MAX_DUCK_ATTACK_MS = 2000;
+const MAX_DUCK_RELEASE_MS = 4000;
+
+const resolveDucking = (ducking) => ({
+  enabled: ducking?.enabled === true,
+  depthDb: clampNumber(ducking?.depthDb, MIN_DUCK_DEPTH_DB, 0, -12),
+  attackMs: clampNumber(ducking?.attackMs, 0, MAX_DUCK_ATTACK_MS, 150),
+  releaseMs: clampNumber(ducking?.releaseMs, 0, MAX_DUCK_RELEASE_MS, 500),
+});
+
+const MAX_AUDIO_CUES = 8;
+// Same as LEGACY_BGM_ANCHORS in audioCues.ts: the clip each old single-BGM mode played under.
+const LEGACY_BGM_ANCHORS = { FULL: null, VIDEO1_ONLY: 0, VIDEO2_ONLY: 1 };
+
+const resolveAnchorClip = (cue) => {
+  if (cue?.anchorClip === null) {
+    return null;
+  }
+  const anchor = Number(cue?.anchorClip);
+  if (Number.isInteger(anchor) && anchor >= 0) {
+    return anchor;
+  }
+  return LEGACY_BGM_ANCHORS[cue?.mode] ?? null;
+};
+
+const resolveClipAudio = (clip) => ({
+  volume: resolveVolumeGain(clip),
+  muted: clip?.muted === true,
+});
+
+const resolveAudioCue = (cue) => ({
+  path: cue.path,
+  anchorClip: resolveAnchorClip(cue),
+  startTime: Number(cue.startTime || 0),
+  playLength: Number(cue.playLength || 0),
+  volume: resolveVolumeGain(cue),
+  fadeIn: resolveBgmFade(cue.fadeIn),
+  fadeOut: resolveBgmFade(cue.fadeOut),
+  loop: Boolean(cue.loop),
+  ducking: resolveDucking(cue.ducking),
+});
+
+// Requests and jobs from before audio cues carry a single `bgm` track.
+const resolveAudioCues = (source) =>
+  (Array.isArray(source?.audioCues) ? source.audioCues : [source?.bgm])
+    .filter((cue) => typeof cue?.path === 'string' && cue.path)
+    .slice(0, MAX_AUDIO_CUES)
+    .map(resolveAudioCue);
+
+const TRANSITION_TYPES = ['NONE', 'CROSSFADE', 'DIP_TO_BLACK', 'WIPE'];
+const MAX_TRANSITION_SECONDS = 3;
+
+const resolveTransition = (transition) => {
+  const type = TRANSITION_TYPES.includes(transition?.type) ? transition.type : 'NONE';
+  const duration = Math.min(MAX_TRANSITION_SECONDS, Math.max(0, Number(transition?.duration) || 0));
+  return { type, duration };
+};
+
+const OUTPUT_FORMATS = ['16:9', '9:16', '1:1'];
+const FRAME_FITS = ['crop', 'fit', 'blur'];
+
+const resolveOutputFormat = (value) => (OUTPUT_FORMATS.includes(value) ? value : '16:9');
+
+const resolveFrameFit = (value) => (FRAME_FITS.includes(value) ? value : 'crop');
+
+const EXPORT_QUALITIES = ['720p', '1080p', '4k'];
+const MAX_OUTPUT_PROFILES = 6;
+
+const getOutputId = (profile) => `${profile.quality}-${profile.format.replace(':', 'x')}`;
+
+// Same range as MIN_LOUDNESS_TARGET / MAX_LOUDNESS_TARGET in outputProfiles.ts.
+const MIN_LOUDNESS_TARGET = -30;
+const MAX_LOUDNESS_TARGET = -8;
+
+const resolveLoudnessTarget = (value) =>
+  value === null || value === undefined || value === ''
+    ? null
+    : clampNumber(value, MIN_LOUDNESS_TARGET, MAX_LOUDNESS_TARGET, null);
+
+// Older clients send a single exportQuality/outputFormat pair instead of an outputs list.
+const resolveOutputProfiles = (body) => {
+  const requested =
+    Array.isArray(body?.outputs) && body.outputs.length > 0
+      ? body.outputs
+      : [{ quality: body?.exportQuality, format: body?.outputFormat }];
+  const profiles = [];
+  for (const output of requested) {
+    const profile = {
+      quality: EXPORT_QUALITIES.includes(output?.quality) ? output.quality : '720p',
+      format: resolveOutputFormat(output?.format),
+      loudnessTarget: resolveLoudnessTarget(output?.loudnessTarget),
+    };
+    if (!profiles.some((item) => getOutputId(item) === getOutputId(profile))) {
+      profiles.push(profile);
+    }
+  }
+  return profiles.slice(0, MAX_OUTPUT_PROFILES);
+};
+
+const CAPTION_FONTS = ['Inter', 'Arial', 'Georgia', 'Impact', 'Courier New'];
+const CAPTION_POSITIONS = ['top', 'middle', 'bottom'];
+
+const resolveCaptionStyle = (style) => {
+  const fontSize = Number(style?.fontSize);
+  const backgroundOpacity = Number(style?.backgroundOpacity);
+  return {
+    fontFamily: CAPTION_FONTS.includes(style?.fontFamily) ? style.fontFamily : 'Inter',
+    fontSize: Number.isFinite(fontSize) ? Math.min(96, Math.max(24, fontSize)) : 48,
+    position: CAPTION_POSITIONS.includes(style?.position) ? style.position : 'bottom',
+    textColor: /^#[0-9a-f]{6}$/i.test(style?.textColor || '') ? style.textColor : '#ffffff',
+    background: style?.background !== false,
+    backgroundOpacity: Number.isFinite(backgroundOpacity) ? Math.min(1, Math.max(0, backgroundOpacity)) : 0.6,
+  };
+};
+
+const OVERLAY_CORNERS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const clampNumber = (value, min, max, fallback) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+};
+
+const resolveOverlay = (overlay) => {
+  if (typeof overlay?.path !== 'string' || !overlay.path) {
+    return null;
+  }
+  const startTime = clampNumber(overlay.startTime, 0, Number.MAX_SAFE_INTEGER, 0);
+  const endTime = Number(overlay.endTime);
+  return {
+    path: overlay.path,
+    corner: OVERLAY_CORNERS.includes(overlay.corner) ? overlay.corner : 'top-right',
+    margin: clampNumber(overlay.margin, 0, 0.15, 0.04),
+    scale: clampNumber(overlay.scale, 0.05, 0.5, 0.15),
+    opacity: clampNumber(overlay.opacity, 0, 1, 0.9),
+    startTime,
+    endTime: overlay.endTime !== null && Number.isFinite(endTime) && endTime > startTime ? endTime : null,
+  };
+};
+
+const TEXT_LAYER_PRESETS = ['lower-third', 'title', 'tag'];
+const MAX_TEXT_LAYERS = 4;
+
+const resolveTextLayers = (layers) =>
+  (Array.isArray(layers) ? layers : [])
+    .filter((layer) => layer && typeof layer === 'object')
+    .slice(0, MAX_TEXT_LAYERS)
+    .map((layer, index) => {
+      const startTime = clampNumber(layer.startTime, 0, Number.MAX_SAFE_INTEGER, 0);
+      return {
+        id: typeof layer.id === 'string' && layer.id ? layer.id : `layer-${index + 1}`,
+        text: typeof layer.text === 'string' ? layer.text : '',
+        subtitle: typeof layer.subtitle === 'string' ? layer.subtitle : '',
+        preset: TEXT_LAYER_PRESETS.includes(layer.preset) ? layer.preset : 'lower-third',
+        anchorClip: Math.round(clampNumber(layer.anchorClip, 0, Number.MAX_SAFE_INTEGER, 0)),
+        startTime,
+        endTime: clampNumber(layer.endTime, startTime, Number.MAX_SAFE_INTEGER, startTime),
+      };
+    });
+
+const resolveTextFields = (fields) =>
+  Object.fromEntries(
+    Object.entries(fields && typeof fields === 'object' ? fields : {}).filter(
+      ([key, value]) => /^[a-zA-Z0-9_]+$/.test(key) && typeof value === 'string'
+    )
+  );
+
+// Accepts SRT (00:00:01,500) and WebVTT (00:01.500 or 00:00:01.500) timestamps.
+const parseCaptionTimestamp = (value) => {
+  const match = String(value || '')
+    .trim()
+    .match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const parseTimedCaptions = (text) => {
+  const cues = [];
+  for (const block of text.split(/\n{2,}/)) {
+    const lines = block.split('\n').map((line) => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex < 0) {
+      continue;
+    }
+    const [startRaw, endRaw = ''] = lines[timingIndex].split('-->');
+    const start = parseCaptionTimestamp(startRaw);
+    const end = parseCaptionTimestamp(endRaw.trim().split(/\s+/)[0]);
+    const cueText = lines
+      .slice(timingIndex + 1)
+      .join('\n')
+      .replace(/<[^>]+>/g, '')
+      .trim();
+    if (start === null || end === null || end <= start || !cueText) {
+      continue;
+    }
+    cues.push({ start, end, text: cueText });
+  }
+  return cues;
+};
+
+// Plain transcripts carry no timing, so sentences are spread across the clip by length.
+const buildTranscriptCues = (text, duration) => {
+  const sentences = text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+  const totalLength = sentences.reduce((sum, sentence) => sum + sentence.length, 0);
+  if (totalLength === 0 || duration <= 0) {
+    return [];
+  }
+  let cursor = 0;
+  return sentences.map((sentence) => {
+    const start = cursor;
+    cursor += (sentence.length / totalLength) * duration;
+    return { start, end: cursor, text: sentence };
+  });
+};
+
+const loadCaptionCues = async (filePath, duration) => {
+  const text = (await fs.readFile(filePath, 'utf-8')).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues = text.includes('-->') ? parseTimedCaptions(text) : buildTranscriptCues(text, duration);
+  return cues.filter((cue) => cue.start < duration).map((cue) => ({ ...cue, end: Math.min(cue.end, duration) }));
+};
+
 const normalizeFileUrl = (filePath) => pathToFileURL(filePath).toString();
 const MEDIA_BASE_URL = `http://localhost:${PORT}/media`;
 const CACHE_BASE_URL = `http://localhost:${PORT}/cache`;
@@ -194,12 +472,15 @@ const runFfmpegWithProgress = (args, controller, options = {}) =>
     const durationSeconds = Number(options.durationSeconds);
     const hasDuration = Number.isFinite(durationSeconds) && durationSeconds > 0;
     const onProgress = typeof options.onProgress === 'function' ? options.onProgress : null;
+    const onLine = typeof options.onLine === 'function' ? options.onLine : null;
 
     const ffmpegArgs = onProgress
       ? ['-nostats', '-progress', 'pipe:2', ...args]
       : args;
 
-    const proc = spawn('ffmpeg', ffmpegArgs, { stdio: onProgress ? ['ignore', 'ignore', 'pipe'] : 'ignore' });
+    const proc = spawn('ffmpeg', ffmpegArgs, {
+      stdio: onProgress || onLine ? ['ignore', 'ignore', 'pipe'] : 'ignore',
+    });
     if (controller) {
       controller.activeProcesses ??= new Set();
       controller.activeProcesses.add(proc);
@@ -227,7 +508,7 @@ const runFfmpegWithProgress = (args, controller, options = {}) =>
       onProgress(lastReported);
     };
 
-    if (onProgress) {
+    if (onProgress || onLine) {
       proc.stderr.on('data', (chunk) => {
         const text = chunk.toString();
         buffered += text;
@@ -240,6 +521,9 @@ const runFfmpegWithProgress = (args, controller, options = {}) =>
           if (!trimmed) {
             continue;
           }
+          if (onLine) {
+            onLine(trimmed);
+          }
           if (trimmed === 'progress=end') {
             maybeReport(1);
             continue;
@@ -369,13 +653,14 @@ const probeMedia = async (filePath) => {
   };
 };
 
+// Older uploads are named `<assetId>-<original name>`; content-addressed ones are `<sha256>.<ext>`.
 const getAssetIdFromPath = (filePath) => {
-  const base = path.basename(filePath);
-  const dashIndex = base.indexOf('-');
-  if (dashIndex <= 0) {
+  const stem = path.basename(filePath, path.extname(filePath));
+  const dashIndex = stem.indexOf('-');
+  if (dashIndex === 0 || !stem) {
     return 'asset';
   }
-  return sanitizeName(base.slice(0, dashIndex)) || 'asset';
+  return sanitizeName(dashIndex > 0 ? stem.slice(0, dashIndex) : stem) || 'asset';
 };
 
 const isNearly = (a, b, epsilon = 0.05) => Math.abs(a - b) <= epsilon;
@@ -391,18 +676,20 @@ const STRIP_VIDEO_AUDIO = parseBoolean(process.env.RENDER_STRIP_VIDEO_AUDIO);
 
 const normalizeVideoTo24Fps = async (inputPath, controller, options = {}) => {
   const onProgress = typeof options.onProgress === 'function' ? options.onProgress : null;
+  const keepAudio = !STRIP_VIDEO_AUDIO && options.keepAudio !== false;
   const assetId = getAssetIdFromPath(inputPath);
   const meta = await probeMedia(inputPath);
   if (onProgress) {
     onProgress(0);
   }
-  if (
+  const isCfr24 = Boolean(
     meta.video &&
-    meta.video.codec === 'h264' &&
-    meta.video.pixFmt === 'yuv420p' &&
-    isNearly(meta.video.avgFps, 24) &&
-    isNearly(meta.video.rFps || meta.video.avgFps, meta.video.avgFps)
-  ) {
+      meta.video.codec === 'h264' &&
+      meta.video.pixFmt === 'yuv420p' &&
+      isNearly(meta.video.avgFps, 24) &&
+      isNearly(meta.video.rFps || meta.video.avgFps, meta.video.avgFps)
+  );
+  if (isCfr24 && (keepAudio || !meta.audio)) {
     if (onProgress) {
       onProgress(1);
     }
@@ -412,8 +699,11 @@ const normalizeVideoTo24Fps = async (inputPath, controller, options = {}) => {
   const inputHash = getQuickCacheKey(inputPath);
   await ensureDir(CACHE_VIDEO_DIR);
 
-  const normalizeSuffix = STRIP_VIDEO_AUDIO ? 'cfr24' : 'cfr24a';
+  // A muted clip and an audible one normalize to different files, so toggling mute never reuses the wrong one.
+  // Input that is already 24fps h264 only needs its audio dropped, so its video is copied as is.
+  const normalizeSuffix = keepAudio ? 'cfr24a' : 'cfr24';
   const outputPath = path.join(CACHE_VIDEO_DIR, `${assetId}-${inputHash}-${normalizeSuffix}.mp4`);
+  useCacheFile(controller, outputPath);
   if (await fileExists(outputPath)) {
     if (onProgress) {
       onProgress(1);
@@ -421,43 +711,45 @@ const normalizeVideoTo24Fps = async (inputPath, controller, options = {}) => {
     return outputPath;
   }
 
-  const args = [
-    '-y',
-    '-i',
-    inputPath,
-    '-vf',
-    'fps=24,format=yuv420p',
-    '-r',
-    '24',
-    '-vsync',
-    'cfr',
-    '-c:v',
-    'libx264',
-    '-preset',
-    'veryfast',
-    '-crf',
-    '18',
-    '-movflags',
-    '+faststart',
-    '-map',
-    '0:v:0',
-    ...(STRIP_VIDEO_AUDIO || !meta.audio
-      ? [
-          '-an',
-        ]
-      : [
-          '-map',
-          '0:a?',
-          '-c:a',
-          'aac',
-          '-b:a',
-          '160k',
-          '-ar',
-          '48000',
-        ]),
-    '-sn',
-    '-dn',
-  ];
+  const args = isCfr24
+    ? ['-y', '-i', inputPath, '-map', '0:v:0', '-c:v', 'copy', '-an', '-sn', '-dn', '-movflags', '+faststart']
+    : [
+        '-y',
+        '-i',
+        inputPath,
+        '-vf',
+        'fps=24,format=yuv420p',
+        '-r',
+        '24',
+        '-vsync',
+        'cfr',
+        '-c:v',
+        'libx264',
+        '-preset',
+        'veryfast',
+        '-crf',
+        '18',
+        '-movflags',
+        '+faststart',
+        '-map',
+        '0:v:0',
+        ...(!keepAudio || !meta.audio
+          ? [
+              '-an',
+            ]
+          : [
+              '-map',
+              '0:a?',
+              '-c:a',
+              'aac',
+              '-b:a',
+              '160k',
+              '-ar',
+              '48000',
+            ]),
+        '-sn',
+        '-dn',
+      ];
 
   args.push(outputPath);
   await runFfmpegWithProgress(args, controller, {
@@ -481,6 +773,7 @@ const transcodeAudioToWav = async (inputPath, controller, options = {}) => {
   await ensureDir(CACHE_AUDIO_DIR);
 
   const outputPath = path.join(CACHE_AUDIO_DIR, `${assetId}-${inputHash}-48k.wav`);
+  useCacheFile(controller, outputPath);
   if (await fileExists(outputPath)) {
     if (onProgress) {
       onProgress(1);
@@ -498,6 +791,194 @@ const transcodeAudioToWav = async (inputPath, controller, options = {}) => {
   return outputPath;
 };
 
+// Same noise floor and minimum pause as SPEECH_NOISE_DB / SPEECH_MIN_SILENCE_SECONDS in ducking.ts.
+const SPEECH_NOISE_DB = -35;
+const SPEECH_MIN_SILENCE_SECONDS = 0.3;
+// Keyed by path and kept in least-recently-used order; the oldest entry goes once the limit is reached.
+const SPEECH_REGION_CACHE_LIMIT = 64;
+const speechRegionCache = new Map();
+
+const forgetSpeechRegions = (target) => {
+  speechRegionCache.forEach((_, filePath) => {
+    if (!path.relative(target, filePath).startsWith('..')) {
+      speechRegionCache.delete(filePath);
+    }
+  });
+};
+
+// Speech is whatever silencedetect does not report as silence.
+const detectSpeechRegions = async (filePath, duration, controller) => {
+  const cacheKey = getQuickCacheKey(filePath);
+  const cached = speechRegionCache.get(filePath);
+  speechRegionCache.delete(filePath);
+  if (cached?.cacheKey === cacheKey) {
+    speechRegionCache.set(filePath, cached);
+    return cached.speech;
+  }
+
+  const silences = [];
+  let silenceStart = null;
+  await runFfmpegWithProgress(
+    [
+      '-hide_banner',
+      '-nostats',
+      '-i',
+      filePath,
+      '-vn',
+      '-af',
+      `silencedetect=noise=${SPEECH_NOISE_DB}dB:d=${SPEECH_MIN_SILENCE_SECONDS}`,
+      '-f',
+      'null',
+      '-',
+    ],
+    controller,
+    {
+      onLine: (line) => {
+        const start = line.match(/silence_start:\s*(-?[\d.]+)/);
+        if (start) {
+          silenceStart = Math.max(0, Number(start[1]));
+          return;
+        }
+        const end = line.match(/silence_end:\s*([\d.]+)/);
+        if (end && silenceStart !== null) {
+          silences.push({ start: silenceStart, end: Number(end[1]) });
+          silenceStart = null;
+        }
+      },
+    }
+  );
+  if (silenceStart !== null) {
+    silences.push({ start: silenceStart, end: duration });
+  }
+
+  const regions = [];
+  let cursor = 0;
+  for (const silence of silences) {
+    if (silence.start > cursor) {
+      regions.push({ start: cursor, end: Math.min(duration, silence.start) });
+    }
+    cursor = Math.max(cursor, silence.end);
+  }
+  if (cursor < duration) {
+    regions.push({ start: cursor, end: duration });
+  }
+  const speech = regions.filter((region) => region.end > region.start);
+  speechRegionCache.set(filePath, { cacheKey, speech });
+  if (speechRegionCache.size > SPEECH_REGION_CACHE_LIMIT) {
+    speechRegionCache.delete(speechRegionCache.keys().next().value);
+  }
+  return speech;
+};
+
+const LOUDNESS_TRUE_PEAK_DB = -1;
+const LOUDNESS_RANGE_LU = 11;
+
+const toFiniteOrNull = (value) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// loudnorm prints its measurement as a JSON block at the end of stderr.
+const runLoudnorm = async (args, controller) => {
+  let block = null;
+  let report = null;
+  await runFfmpegWithProgress(['-hide_banner', '-nostats', ...args], controller, {
+    onLine: (line) => {
+      if (line === '{') {
+        block = [line];
+        return;
+      }
+      if (!block) {
+        return;
+      }
+      block.push(line);
+      if (line === '}') {
+        report = block.join('\n');
+        block = null;
+      }
+    },
+  });
+  if (!report) {
+    throw new Error('loudnorm did not report a measurement.');
+  }
+  return JSON.parse(report);
+};
+
+// Two-pass EBU R128 normalization: measure, then apply the measured values so the gain stays linear where it can.
+const normalizeLoudness = async (filePath, target, controller) => {
+  const meta = await probeMedia(filePath);
+  if (!meta.audio) {
+    return { target, input: null, output: null };
+  }
+
+  const baseFilter = `loudnorm=I=${target}:TP=${LOUDNESS_TRUE_PEAK_DB}:LRA=${LOUDNESS_RANGE_LU}`;
+  const measure = () =>
+    runLoudnorm(['-i', filePath, '-vn', '-af', `${baseFilter}:print_format=json`, '-f', 'null', '-'], controller);
+  const measured = await measure();
+  const input = {
+    integrated: toFiniteOrNull(measured.input_i),
+    truePeak: toFiniteOrNull(measured.input_tp),
+    range: toFiniteOrNull(measured.input_lra),
+  };
+  // A silent mix measures as -inf and has nothing to normalize.
+  if (input.integrated === null) {
+    return { target, input, output: null };
+  }
+
+  const applyFilter = [
+    baseFilter,
+    `measured_I=${measured.input_i}`,
+    `measured_TP=${measured.input_tp}`,
+    `measured_LRA=${measured.input_lra}`,
+    `measured_thresh=${measured.input_thresh}`,
+    `offset=${measured.target_offset}`,
+    'linear=true',
+  ].join(':');
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath, '.mp4')}.loudnorm.mp4`);
+  try {
+    await runFfmpegWithProgress(
+      [
+        '-y',
+        '-i',
+        filePath,
+        '-map',
+        '0:v?',
+        '-map',
+        '0:a:0',
+        '-c:v',
+        'copy',
+        '-af',
+        applyFilter,
+        // loudnorm resamples to 192 kHz internally.
+        '-ar',
+        '48000',
+        '-c:a',
+        'aac',
+        '-b:a',
+        '128k',
+        '-movflags',
+        '+faststart',
+        tempPath,
+      ],
+      controller
+    );
+    await fs.rename(tempPath, filePath);
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+
+  // Recorded from the delivered file rather than loudnorm's own estimate of its output.
+  const delivered = await measure();
+  return {
+    target,
+    input,
+    output: {
+      integrated: toFiniteOrNull(delivered.input_i),
+      truePeak: toFiniteOrNull(delivered.input_tp),
+    },
+  };
+};
+
 const buildBundle = async () => {
   await ensureDir(BUNDLE_DIR);
   return bundle({
@@ -513,21 +994,44 @@ const buildBundle = async () => {
   });
 };
 
+// Uploads land in a scratch folder and are moved to their content-addressed name once hashed.
 const uploadStorage = multer.diskStorage({
-  destination: (_, __, cb) => cb(null, UPLOAD_DIR),
-  filename: (req, file, cb) => {
-    const assetId = sanitizeName(req.body?.assetId || crypto.randomUUID());
-    const original = sanitizeName(file.originalname || 'upload');
-    cb(null, `${assetId}-${original}`);
-  },
+  destination: (_, __, cb) => cb(null, INCOMING_DIR),
+  filename: (_, __, cb) => cb(null, crypto.randomUUID()),
 });
 
 const upload = multer({ storage: uploadStorage });
 
+const UPLOAD_CHUNK_BYTES = parsePositiveInt(process.env.RENDER_UPLOAD_CHUNK_MB, 8) * 1024 * 1024;
+const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const GB = 1024 * 1024 * 1024;
+const CACHE_CATEGORIES = ['uploads', 'cache', 'outputs', 'bundle'];
+
+const ACTIVE_JOB_STATUSES = ['queued', 'normalizing', 'rendering', 'cancelling'];
+
 const jobs = new Map();
+const batches = new Map();
 const jobControllers = new Map();
 const queue = [];
-let isRendering = false;
+const activeJobs = new Map();
+// jobId -> the promise of its running `runJob`, settled once the job has fully unwound.
+const jobRuns = new Map();
+let jobSequence = 0;
+// Holds new jobs back while a cache clear is removing the files they would use.
+let cacheClearing = false;
+// Set while the queue is paused; kept on disk so a restart does not quietly start rendering again.
+let queuePausedAt = null;
+let renderSchedule = { enabled: false, windows: [] };
+// sha256 -> { sha256, path, bytes, assets, createdAt, orphanedAt }. `assets` lists the library assets using the file.
+const uploadIndex = new Map();
+// Chunked uploads in progress, kept on disk so an interrupted upload can pick up where it stopped.
+const uploadSessions = new Map();
+// Normalized media beyond this many bytes is evicted, least recently used first.
+let cacheBudgetBytes = Math.round(parsePositiveFloat(process.env.RENDER_CACHE_MAX_GB, 20) * GB);
+// path -> last time a job read or produced the file; files without an entry fall back to their mtime.
+const fileLastUsed = new Map();
+let cacheEviction = null;
 let serveUrl = null;
 let persistTimer = null;
 
@@ -542,31 +1046,95 @@ const listFilesRecursive = async (dir) => {
     }
     if (entry.isFile()) {
       const stat = await fs.stat(fullPath);
-      files.push({ path: fullPath, bytes: stat.size });
+      files.push({ path: fullPath, bytes: stat.size, lastUsedAt: fileLastUsed.get(fullPath) ?? stat.mtimeMs });
     }
   }
   return files;
 };
 
-const getDirStats = async (dir) => {
+const listFilesIfPresent = async (dir) => {
   try {
-    const files = await listFilesRecursive(dir);
-    const bytes = files.reduce((sum, file) => sum + file.bytes, 0);
-    return { files: files.length, bytes };
+    return await listFilesRecursive(dir);
   } catch (error) {
     if (error?.code === 'ENOENT') {
-      return { files: 0, bytes: 0 };
+      return [];
     }
     throw error;
   }
 };
 
+const getDirStats = async (dir) => {
+  const files = await listFilesIfPresent(dir);
+  const bytes = files.reduce((sum, file) => sum + file.bytes, 0);
+  const lastUsedMs = files.reduce((latest, file) => Math.max(latest, file.lastUsedAt), 0);
+  return { files: files.length, bytes, lastUsedAt: lastUsedMs > 0 ? new Date(lastUsedMs).toISOString() : null };
+};
+
+const touchFile = (filePath) => {
+  fileLastUsed.set(filePath, Date.now());
+  schedulePersistJobs();
+};
+
+const forgetFileUsage = (dir) => {
+  fileLastUsed.forEach((_, filePath) => {
+    if (!path.relative(dir, filePath).startsWith('..')) {
+      fileLastUsed.delete(filePath);
+    }
+  });
+};
+
+// Normalized files a running job has produced or is about to read; eviction leaves them alone.
+const useCacheFile = (controller, filePath) => {
+  if (controller) {
+    controller.cacheFiles ??= new Set();
+    controller.cacheFiles.add(filePath);
+  }
+  touchFile(filePath);
+};
+
+const isCacheFileInUse = (filePath) =>
+  Array.from(jobControllers.values()).some((controller) => controller.cacheFiles?.has(filePath));
+
+const evictCacheOverBudget = async () => {
+  const files = [...(await listFilesIfPresent(CACHE_VIDEO_DIR)), ...(await listFilesIfPresent(CACHE_AUDIO_DIR))];
+  let total = files.reduce((sum, file) => sum + file.bytes, 0);
+  if (total <= cacheBudgetBytes) {
+    return 0;
+  }
+  let evicted = 0;
+  for (const file of files.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= cacheBudgetBytes) {
+      break;
+    }
+    if (isCacheFileInUse(file.path)) {
+      continue;
+    }
+    await fs.rm(file.path, { force: true });
+    forgetDeletedFile(file.path);
+    total -= file.bytes;
+    evicted += 1;
+  }
+  if (evicted > 0) {
+    schedulePersistJobs();
+    console.log(`[render-server] Evicted ${evicted} cached file(s) to stay under the ${(cacheBudgetBytes / GB).toFixed(1)} GB cache budget.`);
+  }
+  return evicted;
+};
+
+const enforceCacheBudget = () => {
+  cacheEviction ??= evictCacheOverBudget().finally(() => {
+    cacheEviction = null;
+  });
+  return cacheEviction;
+};
+
 const getCacheStats = async () => {
-  const [uploads, cache, output, bundle] = await Promise.all([
+  const [uploads, cache, output, bundle, cacheFiles] = await Promise.all([
     getDirStats(UPLOAD_DIR),
     getDirStats(CACHE_DIR),
     getDirStats(OUTPUT_DIR),
     getDirStats(BUNDLE_DIR),
+    Promise.all([listFilesIfPresent(CACHE_VIDEO_DIR), listFilesIfPresent(CACHE_AUDIO_DIR)]),
   ]);
 
   let jobsFile = { files: 0, bytes: 0 };
@@ -585,6 +1153,18 @@ const getCacheStats = async () => {
     output,
     bundle,
     jobsFile,
+    budget: { maxBytes: cacheBudgetBytes, usedBytes: cache.bytes },
+    // Least recently used first, i.e. in eviction order.
+    cacheEntries: cacheFiles
+      .flat()
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt)
+      .slice(0, 20)
+      .map((file) => ({
+        name: path.basename(file.path),
+        bytes: file.bytes,
+        lastUsedAt: new Date(file.lastUsedAt).toISOString(),
+        inUse: isCacheFileInUse(file.path),
+      })),
     total: {
       files: uploads.files + cache.files + output.files + bundle.files + jobsFile.files,
       bytes: uploads.bytes + cache.bytes + output.bytes + bundle.bytes + jobsFile.bytes,
@@ -593,7 +1173,7 @@ const getCacheStats = async () => {
 };
 
 const hasActiveWork = () => {
-  if (isRendering || jobControllers.size > 0 || queue.length > 0) {
+  if (activeJobs.size > 0 || jobControllers.size > 0 || queue.length > 0) {
     return true;
   }
   for (const job of jobs.values()) {
@@ -604,100 +1184,710 @@ const hasActiveWork = () => {
   return false;
 };
 
-const clearRenderCache = async () => {
-  jobs.clear();
-  queue.length = 0;
-  jobControllers.clear();
-  isRendering = false;
-
-  await Promise.all([
-    fs.rm(CACHE_DIR, { recursive: true, force: true }),
-    fs.rm(OUTPUT_DIR, { recursive: true, force: true }),
-    fs.rm(UPLOAD_DIR, { recursive: true, force: true }),
-    fs.rm(BUNDLE_DIR, { recursive: true, force: true }),
-    fs.rm(JOBS_FILE, { force: true }),
-  ]);
+const clearRenderCache = async (categories = CACHE_CATEGORIES) => {
+  const removals = [];
+  if (categories.includes('outputs')) {
+    // Job history points at the outputs, so it goes with them.
+    jobs.clear();
+    queue.length = 0;
+    batches.clear();
+    clearTimeout(retryWakeTimer);
+    jobControllers.clear();
+    activeJobs.clear();
+    removals.push(
+      fs.rm(OUTPUT_DIR, { recursive: true, force: true }),
+      fs.rm(JOBS_FILE, { force: true }),
+      fs.rm(BATCHES_FILE, { force: true })
+    );
+  }
+  if (categories.includes('uploads')) {
+    uploadIndex.clear();
+    uploadSessions.clear();
+    forgetFileUsage(UPLOAD_DIR);
+    forgetSpeechRegions(UPLOAD_DIR);
+    removals.push(fs.rm(UPLOAD_DIR, { recursive: true, force: true }), fs.rm(UPLOAD_INDEX_FILE, { force: true }));
+  }
+  if (categories.includes('cache')) {
+    forgetFileUsage(CACHE_DIR);
+    forgetSpeechRegions(CACHE_DIR);
+    removals.push(fs.rm(CACHE_DIR, { recursive: true, force: true }));
+  }
+  if (categories.includes('bundle')) {
+    removals.push(fs.rm(BUNDLE_DIR, { recursive: true, force: true }));
+  }
+  await Promise.all(removals);
+  schedulePersistJobs();
 
   await ensureDir(UPLOAD_DIR);
+  await ensureDir(INCOMING_DIR);
+  await ensureDir(UPLOAD_SESSION_DIR);
   await ensureDir(OUTPUT_DIR);
   await ensureDir(TRANSCODE_DIR);
   await ensureDir(CACHE_VIDEO_DIR);
   await ensureDir(CACHE_AUDIO_DIR);
-  serveUrl = await buildBundle();
+  if (categories.includes('bundle')) {
+    serveUrl = await buildBundle();
+  }
 };
 
-const purgeAssetFromDisk = async (assetIdInput) => {
-  const assetId = sanitizeName(assetIdInput);
-  const prefix = `${assetId}-`;
+// Running jobs are cancelled and awaited so none of their late updates land after the reset.
+// Queued jobs rebuild normalized files when they start, but nothing brings back a cleared upload.
+const stopJobsForCacheClear = async (categories) => {
+  Array.from(jobControllers.keys()).forEach((jobId) => cancelJob(jobId));
+  if (categories.includes('uploads')) {
+    const waiting = queue.map((job) => job.jobId);
+    queue.length = 0;
+    waiting.forEach((jobId) => {
+      updateJob(jobId, {
+        status: 'failed',
+        stage: null,
+        failureClass: 'missing-input',
+        error: 'Uploaded media was removed by a cache clear. Please re-upload and try again.',
+      });
+    });
+  }
+  await Promise.allSettled(Array.from(jobRuns.values()));
+};
 
-  const deletePrefixedFiles = async (dir) => {
-    try {
-      const entries = await fs.readdir(dir, { withFileTypes: true });
-      await Promise.all(
-        entries
-          .filter((entry) => entry.isFile() && entry.name.startsWith(prefix))
-          .map((entry) => fs.rm(path.join(dir, entry.name), { force: true }))
-      );
-    } catch (error) {
-      if (error?.code !== 'ENOENT') {
-        throw error;
-      }
+const forgetDeletedFile = (filePath) => {
+  fileLastUsed.delete(filePath);
+  forgetSpeechRegions(filePath);
+};
+
+const deletePrefixedFiles = async (dir, prefix) => {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    await Promise.all(
+      entries
+        .filter((entry) => entry.isFile() && entry.name.startsWith(prefix))
+        .map(async (entry) => {
+          const filePath = path.join(dir, entry.name);
+          await fs.rm(filePath, { force: true });
+          forgetDeletedFile(filePath);
+        })
+    );
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
     }
-  };
+  }
+};
 
-  await Promise.all([
-    deletePrefixedFiles(UPLOAD_DIR),
-    deletePrefixedFiles(TRANSCODE_DIR),
-    deletePrefixedFiles(CACHE_VIDEO_DIR),
-    deletePrefixedFiles(CACHE_AUDIO_DIR),
-  ]);
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+const hashFile = (filePath) =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fsSync
+      .createReadStream(filePath)
+      .on('error', reject)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+
+const toUploadAssetId = (value) => (typeof value === 'string' && value.trim() ? sanitizeName(value.trim()) : null);
+
+const addUploadRef = (entry, assetId) => {
+  if (assetId && !entry.assets.includes(assetId)) {
+    entry.assets.push(assetId);
+  }
+  entry.orphanedAt = null;
+  schedulePersistJobs();
 };
 
-const persistJobs = async () => {
-  const payload = Array.from(jobs.entries()).map(([jobId, job]) => ({
-    jobId,
-    ...job,
-  }));
-  await fs.writeFile(JOBS_FILE, JSON.stringify(payload, null, 2), 'utf-8');
+const findStoredUpload = async (sha256) => {
+  const entry = uploadIndex.get(sha256);
+  if (!entry) {
+    return null;
+  }
+  if (await fileExists(entry.path)) {
+    return entry;
+  }
+  uploadIndex.delete(sha256);
+  schedulePersistJobs();
+  return null;
 };
 
-const schedulePersistJobs = () => {
-  if (persistTimer) {
-    clearTimeout(persistTimer);
+const storeUpload = async (tempPath, sha256, originalName, assetId) => {
+  const existing = await findStoredUpload(sha256);
+  if (existing) {
+    await fs.rm(tempPath, { force: true });
+    addUploadRef(existing, assetId);
+    return { entry: existing, deduplicated: true };
   }
-  persistTimer = setTimeout(() => {
-    persistJobs().catch((error) => {
-      console.warn('[render-server] Failed to persist jobs.', error);
-    });
-  }, 300);
+  const extension = path.extname(String(originalName ?? '')).toLowerCase();
+  const storedPath = path.join(UPLOAD_DIR, `${sha256}${/^\.[a-z0-9]{1,8}$/.test(extension) ? extension : ''}`);
+  await fs.rename(tempPath, storedPath);
+  // A parallel upload of the same content may have registered it while this one was being hashed.
+  const entry = uploadIndex.get(sha256) ?? {
+    sha256,
+    path: storedPath,
+    bytes: (await fs.stat(storedPath)).size,
+    assets: [],
+    createdAt: new Date().toISOString(),
+    orphanedAt: null,
+  };
+  uploadIndex.set(sha256, entry);
+  addUploadRef(entry, assetId);
+  return { entry, deduplicated: false };
 };
 
-const updateJob = (jobId, updates) => {
-  const current = jobs.get(jobId) || {};
-  jobs.set(jobId, { ...current, ...updates });
-  schedulePersistJobs();
+const toPublicUploadSession = (session) => ({
+  uploadId: session.uploadId,
+  size: session.size,
+  chunkSize: session.chunkSize,
+  totalChunks: session.totalChunks,
+  receivedChunks: session.receivedChunks,
+});
+
+const saveUploadSession = (session) =>
+  fs.writeFile(path.join(UPLOAD_SESSION_DIR, `${session.uploadId}.json`), JSON.stringify(session, null, 2), 'utf-8');
+
+const removeUploadSession = async (session) => {
+  uploadSessions.delete(session.uploadId);
+  await Promise.all([
+    fs.rm(session.dataPath, { force: true }),
+    fs.rm(path.join(UPLOAD_SESSION_DIR, `${session.uploadId}.json`), { force: true }),
+  ]);
 };
 
-const chromiumOptions = { disableWebSecurity: true };
+// The same asset, name and size resumes the open session instead of starting over.
+const createUploadSession = async ({ assetId, name, size, sha256 }) => {
+  const existing = assetId
+    ? Array.from(uploadSessions.values()).find(
+        (session) => session.assetId === assetId && session.name === name && session.size === size && !session.completing
+      )
+    : null;
+  if (existing) {
+    return existing;
+  }
+  const uploadId = crypto.randomUUID();
+  const session = {
+    uploadId,
+    assetId,
+    name,
+    size,
+    sha256,
+    chunkSize: UPLOAD_CHUNK_BYTES,
+    totalChunks: Math.ceil(size / UPLOAD_CHUNK_BYTES),
+    receivedChunks: [],
+    chunkHashes: [],
+    dataPath: path.join(UPLOAD_SESSION_DIR, `${uploadId}.part`),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+  await fs.writeFile(session.dataPath, '');
+  await saveUploadSession(session);
+  uploadSessions.set(uploadId, session);
+  return session;
+};
 
-const processQueue = async () => {
-  if (isRendering || queue.length === 0) {
-    return;
+const writeUploadChunk = async (session, index, data, expectedSha256) => {
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    return { ok: false, message: 'Chunk index out of range.' };
   }
-  const job = queue.shift();
-  if (!job) {
-    return;
+  const expectedLength = Math.min(session.chunkSize, session.size - index * session.chunkSize);
+  if (data.length !== expectedLength) {
+    return { ok: false, message: `Chunk ${index} should be ${expectedLength} bytes, got ${data.length}.` };
   }
+  const chunkSha256 = crypto.createHash('sha256').update(data).digest('hex');
+  if (expectedSha256 && chunkSha256 !== expectedSha256) {
+    return { ok: false, message: `Chunk ${index} does not match its checksum.` };
+  }
+  const handle = await fs.open(session.dataPath, 'r+');
+  try {
+    await handle.write(data, 0, data.length, index * session.chunkSize);
+  } finally {
+    await handle.close();
+  }
+  if (!session.receivedChunks.includes(index)) {
+    session.receivedChunks.push(index);
+    session.receivedChunks.sort((a, b) => a - b);
+  }
+  session.chunkHashes ??= [];
+  session.chunkHashes[index] = chunkSha256;
+  session.updatedAt = new Date().toISOString();
+  await saveUploadSession(session);
+  return { ok: true };
+};
 
-  isRendering = true;
-  const { cancelSignal, cancel } = makeCancelSignal();
-  const controller = { cancelled: false, cancel, cancelSignal, activeProcesses: new Set() };
-  jobControllers.set(job.jobId, controller);
-
-  const createProgressUpdater = () => {
-    let last = -1;
-    let lastAt = 0;
-    return (value) => {
+// Reads the assembled file back chunk by chunk. Each chunk must still match the hash it arrived with,
+// so a part file damaged while the session sat on disk is caught even when no file checksum was given.
+const verifyUploadSession = async (session) => {
+  const fileHash = crypto.createHash('sha256');
+  const damagedChunks = [];
+  const buffer = Buffer.alloc(session.chunkSize);
+  const handle = await fs.open(session.dataPath, 'r');
+  try {
+    for (let index = 0; index < session.totalChunks; index += 1) {
+      const length = Math.min(session.chunkSize, session.size - index * session.chunkSize);
+      const { bytesRead } = await handle.read(buffer, 0, length, index * session.chunkSize);
+      const data = buffer.subarray(0, bytesRead);
+      fileHash.update(data);
+      const expected = session.chunkHashes?.[index];
+      if (bytesRead !== length || (expected && crypto.createHash('sha256').update(data).digest('hex') !== expected)) {
+        damagedChunks.push(index);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+  return { sha256: fileHash.digest('hex'), damagedChunks };
+};
+
+const completeUploadSession = async (session) => {
+  if (session.receivedChunks.length < session.totalChunks) {
+    const received = new Set(session.receivedChunks);
+    const missingChunks = Array.from({ length: session.totalChunks }, (_, index) => index).filter(
+      (index) => !received.has(index)
+    );
+    return { ok: false, status: 409, message: 'Upload is missing chunks.', missingChunks };
+  }
+  session.completing = true;
+  try {
+    const { size } = await fs.stat(session.dataPath);
+    if (size !== session.size) {
+      await removeUploadSession(session);
+      return { ok: false, status: 400, message: 'Upload is not the declared size. Please upload it again.' };
+    }
+    const { sha256, damagedChunks } = await verifyUploadSession(session);
+    if (damagedChunks.length > 0) {
+      session.receivedChunks = session.receivedChunks.filter((index) => !damagedChunks.includes(index));
+      await saveUploadSession(session);
+      return {
+        ok: false,
+        status: 409,
+        message: 'Some chunks were damaged. Please send them again.',
+        missingChunks: damagedChunks,
+      };
+    }
+    if (session.sha256 && session.sha256 !== sha256) {
+      await removeUploadSession(session);
+      return { ok: false, status: 400, message: 'Upload does not match its checksum. Please upload it again.' };
+    }
+    const { entry, deduplicated } = await storeUpload(session.dataPath, sha256, session.name, session.assetId);
+    await removeUploadSession(session);
+    return { ok: true, path: entry.path, sha256, deduplicated };
+  } finally {
+    session.completing = false;
+  }
+};
+
+const getJobInputs = (spec) =>
+  [
+    ...(Array.isArray(spec?.clipPaths) ? spec.clipPaths : []),
+    ...(Array.isArray(spec?.captionPaths) ? spec.captionPaths : []),
+    ...resolveAudioCues(spec).map((cue) => cue.path),
+    spec?.overlay?.path,
+  ].filter(Boolean);
+
+const isUploadInUse = (filePath) =>
+  Array.from(jobs.values()).some(
+    (job) => ACTIVE_JOB_STATUSES.includes(job.status) && getJobInputs(job.spec).includes(filePath)
+  );
+
+// A file shared by several assets stays until the last of them is purged, and until no pending job needs it.
+const releaseOrphanedUploads = async () => {
+  const releasable = Array.from(uploadIndex.values()).filter(
+    (entry) => entry.orphanedAt && entry.assets.length === 0 && !isUploadInUse(entry.path)
+  );
+  for (const entry of releasable) {
+    uploadIndex.delete(entry.sha256);
+    forgetDeletedFile(entry.path);
+    await Promise.all([
+      fs.rm(entry.path, { force: true }),
+      deletePrefixedFiles(TRANSCODE_DIR, `${entry.sha256}-`),
+      deletePrefixedFiles(CACHE_VIDEO_DIR, `${entry.sha256}-`),
+      deletePrefixedFiles(CACHE_AUDIO_DIR, `${entry.sha256}-`),
+    ]);
+  }
+  if (releasable.length > 0) {
+    schedulePersistJobs();
+  }
+};
+
+const purgeAssetFromDisk = async (assetIdInput) => {
+  const assetId = sanitizeName(assetIdInput);
+  const prefix = `${assetId}-`;
+
+  uploadIndex.forEach((entry) => {
+    if (!entry.assets.includes(assetId)) {
+      return;
+    }
+    entry.assets = entry.assets.filter((id) => id !== assetId);
+    if (entry.assets.length === 0) {
+      entry.orphanedAt = new Date().toISOString();
+    }
+  });
+  schedulePersistJobs();
+
+  await Promise.all(
+    Array.from(uploadSessions.values())
+      .filter((session) => session.assetId === assetId)
+      .map((session) => removeUploadSession(session))
+  );
+
+  // Uploads from before content addressing are still named after their asset.
+  await Promise.all([
+    deletePrefixedFiles(UPLOAD_DIR, prefix),
+    deletePrefixedFiles(TRANSCODE_DIR, prefix),
+    deletePrefixedFiles(CACHE_VIDEO_DIR, prefix),
+    deletePrefixedFiles(CACHE_AUDIO_DIR, prefix),
+    releaseOrphanedUploads(),
+  ]);
+};
+
+const persistJobs = async () => {
+  const payload = Array.from(jobs.entries()).map(([jobId, job]) => ({
+    jobId,
+    ...job,
+  }));
+  await fs.writeFile(JOBS_FILE, JSON.stringify(payload, null, 2), 'utf-8');
+  await fs.writeFile(BATCHES_FILE, JSON.stringify(Array.from(batches.values()), null, 2), 'utf-8');
+  await fs.writeFile(QUEUE_STATE_FILE, JSON.stringify({ pausedAt: queuePausedAt }, null, 2), 'utf-8');
+  await fs.writeFile(UPLOAD_INDEX_FILE, JSON.stringify(Array.from(uploadIndex.values()), null, 2), 'utf-8');
+  await fs.writeFile(
+    CACHE_STATE_FILE,
+    JSON.stringify({ maxBytes: cacheBudgetBytes, lastUsed: Object.fromEntries(fileLastUsed) }, null, 2),
+    'utf-8'
+  );
+};
+
+const schedulePersistJobs = () => {
+  if (persistTimer) {
+    clearTimeout(persistTimer);
+  }
+  persistTimer = setTimeout(() => {
+    persistJobs().catch((error) => {
+      console.warn('[render-server] Failed to persist jobs.', error);
+    });
+  }, 300);
+};
+
+const eventClients = new Set();
+
+const writeEvent = (res, event, data) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// The stored spec holds server paths and full render settings; clients only need the status.
+const toPublicJob = ({ spec, ...job }) => job;
+
+const updateJob = (jobId, updates) => {
+  const current = jobs.get(jobId) || {};
+  const next = { ...current, ...updates };
+  jobs.set(jobId, next);
+  schedulePersistJobs();
+  eventClients.forEach((res) => writeEvent(res, 'job', { jobId, ...toPublicJob(next) }));
+};
+
+const chromiumOptions = { disableWebSecurity: true };
+
+const FAILURE_PATTERNS = [
+  { failureClass: 'disk', pattern: /ENOSPC|No space left on device|disk quota/i },
+  { failureClass: 'missing-input', pattern: /No such file or directory|missing on disk/i },
+  {
+    failureClass: 'decode',
+    pattern: /Invalid data found|moov atom not found|Error while decoding|could not find codec parameters|corrupt/i,
+  },
+  {
+    failureClass: 'timeout',
+    pattern: /timed? ?out|Target closed|Protocol error|browser has disconnected|Navigation failed|ECONNRESET|EADDRINUSE|Unable to allocate port/i,
+  },
+];
+const TRANSIENT_FAILURES = ['timeout'];
+
+const classifyFailure = (error, controller) => {
+  if (controller?.cancelled) {
+    return 'cancelled';
+  }
+  if (error?.failureClass) {
+    return error.failureClass;
+  }
+  if (error?.code === 'ENOSPC') {
+    return 'disk';
+  }
+  // A missing ffmpeg/ffprobe binary also reports ENOENT, but that is a setup problem rather than a missing upload.
+  if (error?.code === 'ENOENT' && !String(error.syscall ?? '').startsWith('spawn')) {
+    return 'missing-input';
+  }
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return FAILURE_PATTERNS.find((item) => item.pattern.test(message))?.failureClass ?? 'unknown';
+};
+
+// ffmpeg errors carry up to 8 KB of stderr; the last few lines hold the actual reason.
+const summarizeError = (error) => {
+  const message = error instanceof Error ? error.message : 'Render failed.';
+  const lines = message.split('\n').map((line) => line.trim()).filter(Boolean);
+  const summary = lines.length > 3 ? [lines[0], ...lines.slice(-2)].join(' … ') : lines.join(' ');
+  return summary.length > 400 ? `${summary.slice(0, 400)}…` : summary;
+};
+
+// A retry waits in the queue until its retryAt, so pause, schedule and priority apply to it like any other job.
+let retryWakeTimer = null;
+
+const isHeldForRetry = (job, now) => Number(job.retryAt) > now;
+
+const wakeForNextRetry = (now) => {
+  clearTimeout(retryWakeTimer);
+  retryWakeTimer = null;
+  const held = queue.filter((job) => isHeldForRetry(job, now));
+  if (held.length > 0) {
+    const nextRetryAt = Math.min(...held.map((job) => job.retryAt));
+    retryWakeTimer = setTimeout(processQueue, nextRetryAt - now);
+  }
+};
+
+// Higher priority first, then queue order. Priorities and order can change while a job waits.
+const compareQueuedJobs = (a, b) => (b.priority ?? 0) - (a.priority ?? 0) || (a.sequence ?? 0) - (b.sequence ?? 0);
+
+// Waiters are served by queue order rather than arrival at the stage, so a job with long
+// clips is not overtaken at the render stage by jobs queued after it.
+const createStageLimiter = (limit) => {
+  let active = 0;
+  const waiting = [];
+  return {
+    getState: () => ({ limit, active, waiting: waiting.length }),
+    resort: () => waiting.sort((a, b) => compareQueuedJobs(a.job, b.job)),
+    acquire: (controller, job) => {
+      if (active < limit) {
+        active += 1;
+        return Promise.resolve();
+      }
+      return new Promise((resolve, reject) => {
+        const waiter = { job, resolve };
+        const index = waiting.findIndex((item) => compareQueuedJobs(item.job, job) > 0);
+        waiting.splice(index < 0 ? waiting.length : index, 0, waiter);
+        controller.abortWait = () => {
+          const position = waiting.indexOf(waiter);
+          if (position >= 0) {
+            waiting.splice(position, 1);
+          }
+          reject(new Error('Render cancelled by user.'));
+        };
+      }).finally(() => {
+        controller.abortWait = null;
+      });
+    },
+    release: () => {
+      const next = waiting.shift();
+      if (next) {
+        next.resolve();
+      } else {
+        active -= 1;
+      }
+    },
+  };
+};
+
+const stageLimiters = {
+  normalize: createStageLimiter(NORMALIZE_SLOTS),
+  render: createStageLimiter(RENDER_SLOTS),
+};
+
+const getPoolState = () => ({
+  paused: Boolean(queuePausedAt),
+  schedule: getScheduleState(),
+  maxParallelJobs: MAX_PARALLEL_JOBS,
+  activeJobs: activeJobs.size,
+  queuedJobs: queue.length,
+  renderConcurrency: RENDER_CONCURRENCY,
+  stages: {
+    normalize: stageLimiters.normalize.getState(),
+    render: stageLimiters.render.getState(),
+  },
+});
+
+const withStage = async (stage, controller, job, task) => {
+  await stageLimiters[stage].acquire(controller, job);
+  try {
+    if (controller.cancelled) {
+      throw new Error('Render cancelled by user.');
+    }
+    return await task();
+  } finally {
+    stageLimiters[stage].release();
+  }
+};
+
+const QUEUE_PAUSED_STAGE = 'Queue paused';
+const WAITING_FOR_WINDOW_STAGE = 'Waiting for window';
+const MAX_SCHEDULE_WINDOWS = 14;
+const SCHEDULE_CHECK_INTERVAL_MS = 30000;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const sanitizeScheduleWindow = (value) => {
+  const days = Array.isArray(value?.days)
+    ? Array.from(new Set(value.days.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))).sort((a, b) => a - b)
+    : [];
+  const start = typeof value?.start === 'string' && TIME_PATTERN.test(value.start) ? value.start : null;
+  const end = typeof value?.end === 'string' && TIME_PATTERN.test(value.end) ? value.end : null;
+  if (days.length === 0 || !start || !end) {
+    return null;
+  }
+  return { days, start, end, maxJobs: parsePositiveInt(value?.maxJobs, 1) };
+};
+
+const sanitizeSchedule = (value) => ({
+  enabled: Boolean(value?.enabled),
+  windows: (Array.isArray(value?.windows) ? value.windows : [])
+    .map(sanitizeScheduleWindow)
+    .filter(Boolean)
+    .slice(0, MAX_SCHEDULE_WINDOWS),
+});
+
+// Windows use the server's local time. A window whose end is not after its start runs past midnight,
+// so `days` always lists the days a window opens on.
+const isInsideWindow = (window, date) => {
+  const day = date.getDay();
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start < end) {
+    return window.days.includes(day) && minute >= start && minute < end;
+  }
+  return (window.days.includes(day) && minute >= start) || (window.days.includes((day + 6) % 7) && minute < end);
+};
+
+const findNextWindowOpening = (date) => {
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const day = new Date(date);
+    day.setDate(day.getDate() + offset);
+    const openings = renderSchedule.windows
+      .filter((window) => window.days.includes(day.getDay()))
+      .map((window) => {
+        const [hours, minutes] = window.start.split(':').map(Number);
+        return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+      })
+      .filter((opening) => opening > date)
+      .sort((a, b) => a - b);
+    if (openings.length > 0) {
+      return openings[0];
+    }
+  }
+  return null;
+};
+
+const formatWindowOpening = (date) =>
+  `${WEEKDAY_LABELS[date.getDay()]} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const getScheduleState = (date = new Date()) => {
+  if (!renderSchedule.enabled) {
+    return { enabled: false, open: true, jobLimit: MAX_PARALLEL_JOBS, nextOpen: null };
+  }
+  const openWindows = renderSchedule.windows.filter((window) => isInsideWindow(window, date));
+  if (openWindows.length === 0) {
+    const nextOpen = findNextWindowOpening(date);
+    return { enabled: true, open: false, jobLimit: 0, nextOpen: nextOpen ? formatWindowOpening(nextOpen) : null };
+  }
+  // Overlapping windows use the most generous limit, but never more than the worker pool has.
+  const jobLimit = Math.min(MAX_PARALLEL_JOBS, Math.max(...openWindows.map((window) => window.maxJobs)));
+  return { enabled: true, open: true, jobLimit, nextOpen: null };
+};
+
+const getQueueState = () => ({
+  paused: Boolean(queuePausedAt),
+  pausedAt: queuePausedAt,
+  schedule: getScheduleState(),
+  activeJobs: activeJobs.size,
+  queuedJobs: queue.length,
+});
+
+const getWaitingStage = (scheduleState) => {
+  if (queuePausedAt) {
+    return QUEUE_PAUSED_STAGE;
+  }
+  if (!scheduleState.open) {
+    return scheduleState.nextOpen
+      ? `${WAITING_FOR_WINDOW_STAGE} (opens ${scheduleState.nextOpen})`
+      : `${WAITING_FOR_WINDOW_STAGE} (no window configured)`;
+  }
+  return null;
+};
+
+const isWaitingStage = (stage) =>
+  stage === QUEUE_PAUSED_STAGE || String(stage ?? '').startsWith(WAITING_FOR_WINDOW_STAGE);
+
+// Only touches stages set by the pause or the schedule, so retry and resume notes stay visible.
+const refreshWaitingStages = (scheduleState) => {
+  const stage = getWaitingStage(scheduleState);
+  queue.forEach((job) => {
+    const current = jobs.get(job.jobId)?.stage ?? null;
+    if (current !== stage && (stage || isWaitingStage(current))) {
+      updateJob(job.jobId, { stage });
+    }
+  });
+};
+
+// Pausing only stops new jobs from starting; jobs that already started run to the end.
+const setQueuePaused = (paused) => {
+  if (paused !== Boolean(queuePausedAt)) {
+    queuePausedAt = paused ? new Date().toISOString() : null;
+    schedulePersistJobs();
+    console.log(`[render-server] Queue ${paused ? 'paused' : 'resumed'}.`);
+    processQueue();
+  }
+  return getQueueState();
+};
+
+const setRenderSchedule = async (value) => {
+  renderSchedule = sanitizeSchedule(value);
+  await fs.writeFile(SCHEDULE_FILE, JSON.stringify(renderSchedule, null, 2), 'utf-8');
+  processQueue();
+  return { ...renderSchedule, state: getScheduleState() };
+};
+
+// Like a pause, a closing window lets running jobs finish; it only holds back the next ones.
+const processQueue = () => {
+  const scheduleState = getScheduleState();
+  refreshWaitingStages(scheduleState);
+  if (queuePausedAt || cacheClearing) {
+    return;
+  }
+  const now = Date.now();
+  while (activeJobs.size < scheduleState.jobLimit) {
+    const ready = queue.filter((job) => !isHeldForRetry(job, now));
+    if (ready.length === 0) {
+      break;
+    }
+    const job = ready.reduce((best, candidate) => (compareQueuedJobs(candidate, best) < 0 ? candidate : best));
+    queue.splice(queue.indexOf(job), 1);
+    if (job.retryAt) {
+      job.retryAt = null;
+      updateJob(job.jobId, { retryAt: null });
+    }
+    activeJobs.set(job.jobId, job);
+    const run = runJob(job).finally(() => {
+      jobRuns.delete(job.jobId);
+      activeJobs.delete(job.jobId);
+      processQueue();
+      releaseOrphanedUploads().catch((error) => {
+        console.warn('[render-server] Failed to release purged uploads.', error);
+      });
+      enforceCacheBudget().catch((error) => {
+        console.warn('[render-server] Failed to evict cached media.', error);
+      });
+    });
+    jobRuns.set(job.jobId, run);
+  }
+  wakeForNextRetry(now);
+};
+
+const runJob = async (job) => {
+  const { cancelSignal, cancel } = makeCancelSignal();
+  const controller = { cancelled: false, cancel, cancelSignal, activeProcesses: new Set() };
+  jobControllers.set(job.jobId, controller);
+
+  const createProgressUpdater = () => {
+    let last = -1;
+    let lastAt = 0;
+    return (value) => {
       if (controller.cancelled) {
         return;
       }
@@ -718,168 +1908,385 @@ const processQueue = async () => {
   const setProgress = createProgressUpdater();
   const PREPROCESS_MAX = 25;
 
-  updateJob(job.jobId, { status: 'normalizing', progress: 0, error: null });
+  updateJob(job.jobId, { stage: 'Waiting for a normalize slot', progress: 0, error: null });
 
   try {
     if (controller.cancelled) {
-      updateJob(job.jobId, { status: 'cancelled', error: 'Render cancelled by user.' });
+      updateJob(job.jobId, { status: 'cancelled', stage: null, error: 'Render cancelled by user.' });
       return;
     }
 
-    const normalizeVideoInput = async (inputPath, onProgress) => {
-      const normalizedPath = await normalizeVideoTo24Fps(inputPath, controller, { onProgress });
-      const meta = await probeMedia(normalizedPath);
-      if (typeof onProgress === 'function') {
-        onProgress(1);
+    const inputProps = await withStage('normalize', controller, job, async () => {
+      updateJob(job.jobId, { status: 'normalizing', stage: 'Preparing media', error: null });
+      if (!(await hasJobInputs(job))) {
+        throw Object.assign(new Error('Uploaded media is missing on disk.'), { failureClass: 'missing-input' });
       }
-      return {
-        path: normalizedPath,
-        url: toServedUrl(normalizedPath),
-        duration: Math.max(0.01, meta.duration || 0),
+      getJobInputs(job).forEach(touchFile);
+
+      const audioCues = resolveAudioCues(job);
+      const duckingEnabled = audioCues.some((cue) => cue.ducking.enabled);
+      // Muted clips drop their audio track, so there is no speech left in them to duck under.
+      const normalizeVideoInput = async (inputPath, clipAudio, onProgress) => {
+        const normalizedPath = await normalizeVideoTo24Fps(inputPath, controller, {
+          onProgress,
+          keepAudio: !clipAudio.muted,
+        });
+        const meta = await probeMedia(normalizedPath);
+        const duration = Math.max(0.01, meta.duration || 0);
+        const speech =
+          duckingEnabled && !clipAudio.muted && meta.audio
+            ? await detectSpeechRegions(normalizedPath, duration, controller)
+            : [];
+        if (typeof onProgress === 'function') {
+          onProgress(1);
+        }
+        return {
+          path: normalizedPath,
+          url: toServedUrl(normalizedPath),
+          duration,
+          speech,
+        };
       };
-    };
 
-    const tasks = ['video1', ...(job.video2Path ? ['video2'] : []), ...(job.bgm?.path ? ['bgm'] : [])];
-    const taskCount = Math.max(1, tasks.length);
-    const taskSpan = PREPROCESS_MAX / taskCount;
-    const taskProgress = new Array(taskCount).fill(0);
-
-    const setPreprocessProgress = () => {
-      const sum = taskProgress.reduce((acc, value) => acc + Math.max(0, Math.min(1, Number(value) || 0)), 0);
-      setProgress(sum * taskSpan);
-    };
+      const clipPaths = Array.isArray(job.clipPaths) ? job.clipPaths : [];
+      // Jobs queued before per-clip audio have no `clipAudio`; their clips play at full volume.
+      const clipAudio = clipPaths.map((_, index) => resolveClipAudio(job.clipAudio?.[index]));
+      const tasks = [
+        ...clipPaths.map((_, index) => `clip${index + 1}`),
+        ...audioCues.map((_, index) => `audio${index + 1}`),
+      ];
+      const taskCount = Math.max(1, tasks.length);
+      const taskSpan = PREPROCESS_MAX / taskCount;
+      const taskProgress = new Array(taskCount).fill(0);
+
+      const setPreprocessProgress = () => {
+        const sum = taskProgress.reduce((acc, value) => acc + Math.max(0, Math.min(1, Number(value) || 0)), 0);
+        setProgress(sum * taskSpan);
+      };
 
-    const runTask = async (index, runner) => {
-      taskProgress[index] = 0;
-      setPreprocessProgress();
-      await runner((p) => {
-        taskProgress[index] = Math.max(0, Math.min(1, Number(p) || 0));
+      const runTask = async (index, runner) => {
+        taskProgress[index] = 0;
         setPreprocessProgress();
-      });
-      taskProgress[index] = 1;
-      setPreprocessProgress();
-    };
+        await runner((p) => {
+          taskProgress[index] = Math.max(0, Math.min(1, Number(p) || 0));
+          setPreprocessProgress();
+        });
+        taskProgress[index] = 1;
+        setPreprocessProgress();
+      };
 
-    let normalizedVideo1 = null;
-    let normalizedVideo2 = { url: '', duration: 0 };
-    if (job.video2Path) {
-      await Promise.all([
-        runTask(0, async (onTaskProgress) => {
-          normalizedVideo1 = await normalizeVideoInput(job.video1Path, onTaskProgress);
-        }),
-        runTask(1, async (onTaskProgress) => {
-          normalizedVideo2 = await normalizeVideoInput(job.video2Path, onTaskProgress);
-        }),
-      ]);
-    } else {
-      await runTask(0, async (onTaskProgress) => {
-        normalizedVideo1 = await normalizeVideoInput(job.video1Path, onTaskProgress);
-      });
-    }
-    if (controller.cancelled) {
-      updateJob(job.jobId, { status: 'cancelled', error: 'Render cancelled by user.' });
-      return;
-    }
+      const captionPaths = Array.isArray(job.captionPaths) ? job.captionPaths : [];
+      const normalizedClips = new Array(clipPaths.length).fill(null);
+      await Promise.all(
+        clipPaths.map((clipPath, index) =>
+          runTask(index, async (onTaskProgress) => {
+            normalizedClips[index] = await normalizeVideoInput(clipPath, clipAudio[index], onTaskProgress);
+          })
+        )
+      );
+      if (controller.cancelled) {
+        throw new Error('Render cancelled by user.');
+      }
 
-    const inputProps = {
-      video1Path: normalizedVideo1.url,
-      video2Path: normalizedVideo2.url,
-      video1Duration: normalizedVideo1.duration,
-      video2Duration: normalizedVideo2.duration,
-      exportQuality: job.exportQuality || '720p',
-      bgm: null,
-    };
+      const clipCaptions = await Promise.all(
+        normalizedClips.map((clip, index) =>
+          captionPaths[index] ? loadCaptionCues(captionPaths[index], clip.duration) : []
+        )
+      );
 
-    if (job.bgm?.path) {
-      const bgmIndex = job.video2Path ? 2 : 1;
-      let audioPath = null;
-      await runTask(bgmIndex, async (onTaskProgress) => {
-        audioPath = await transcodeAudioToWav(job.bgm.path, controller, { onProgress: onTaskProgress });
-      });
-      const audioMeta = await probeMedia(audioPath);
-      inputProps.bgm = {
-        path: toServedUrl(audioPath),
-        duration: Math.max(0.01, audioMeta.duration || 0),
-        playLength: Number(job.bgm.playLength || 0),
-        volume: resolveVolumeGain(job.bgm),
-        mode: job.bgm.mode,
-        startTime: Number(job.bgm.startTime || 0),
-        loop: Boolean(job.bgm.loop),
+      const inputProps = {
+        clips: normalizedClips.map((clip, index) => ({
+          path: clip.url,
+          duration: clip.duration,
+          captions: clipCaptions[index],
+          speech: clip.speech,
+          volume: clipAudio[index].muted ? 0 : clipAudio[index].volume,
+        })),
+        transition: resolveTransition(job.transition),
+        captionStyle: resolveCaptionStyle(job.captionStyle),
+        overlay: job.overlay ? { ...job.overlay, path: toServedUrl(job.overlay.path) } : null,
+        textLayers: resolveTextLayers(job.textLayers),
+        textFields: resolveTextFields(job.textFields),
+        frameFit: resolveFrameFit(job.frameFit),
+        audioCues: [],
       };
-    }
 
-    updateJob(job.jobId, { status: 'rendering', error: null });
-    setProgress(PREPROCESS_MAX);
+      // One at a time: cues that share a track would otherwise race to write the same cached WAV.
+      for (const [cueIndex, cue] of audioCues.entries()) {
+        let audioPath = null;
+        await runTask(clipPaths.length + cueIndex, async (onTaskProgress) => {
+          audioPath = await transcodeAudioToWav(cue.path, controller, { onProgress: onTaskProgress });
+        });
+        const audioMeta = await probeMedia(audioPath);
+        inputProps.audioCues.push({
+          ...cue,
+          path: toServedUrl(audioPath),
+          duration: Math.max(0.01, audioMeta.duration || 0),
+        });
+      }
+      return inputProps;
+    });
 
-    const remotionPort = REMOTION_SERVE_PORT ?? (await getFreePort());
+    updateJob(job.jobId, { stage: 'Waiting for a render slot' });
+    const outputs = job.outputs;
+    const loudness = new Array(outputs.length).fill(null);
+    await withStage('render', controller, job, async () => {
+      updateJob(job.jobId, { status: 'rendering', stage: 'Rendering', error: null });
+      setProgress(PREPROCESS_MAX);
+
+      const remotionPort = REMOTION_SERVE_PORT ?? (await getFreePort());
+      const useHardwareEncoding =
+        process.platform === 'darwin' && HARDWARE_ACCELERATION !== 'disable';
+
+      // Every output profile reuses the normalized clips and BGM above; only the Remotion pass repeats.
+      const renderSpan = (100 - PREPROCESS_MAX) / outputs.length;
+      for (const [outputIndex, output] of outputs.entries()) {
+        const outputProps = { ...inputProps, exportQuality: output.quality, outputFormat: output.format };
+        if (outputs.length > 1) {
+          updateJob(job.jobId, {
+            stage: `Rendering ${output.quality} ${output.format} (${outputIndex + 1}/${outputs.length})`,
+          });
+        }
 
-    const composition = await selectComposition({
-      serveUrl,
-      id: COMPOSITION_ID,
-      inputProps,
-      chromiumOptions,
-      port: remotionPort,
-      offthreadVideoThreads: OFFTHREAD_VIDEO_THREADS,
-    });
+        const composition = await selectComposition({
+          serveUrl,
+          id: COMPOSITION_ID,
+          inputProps: outputProps,
+          chromiumOptions,
+          port: remotionPort,
+          offthreadVideoThreads: OFFTHREAD_VIDEO_THREADS,
+        });
 
-    const useHardwareEncoding =
-      process.platform === 'darwin' && HARDWARE_ACCELERATION !== 'disable';
-
-    await renderMedia({
-      serveUrl,
-      composition,
-      codec: 'h264',
-      hardwareAcceleration: HARDWARE_ACCELERATION,
-      ...(useHardwareEncoding
-        ? { videoBitrate: resolveVideoBitrate(job.exportQuality || '720p') }
-        : { crf: 24, x264Preset: 'veryfast' }),
-      audioBitrate: '128k',
-      outputLocation: job.outputPath,
-      overwrite: true,
-      inputProps,
-      chromiumOptions,
-      port: remotionPort,
-      concurrency: RENDER_CONCURRENCY,
-      offthreadVideoThreads: OFFTHREAD_VIDEO_THREADS,
-      cancelSignal: controller.cancelSignal,
-      onProgress: ({ progress }) => {
-        if (controller.cancelled) {
-          return;
+        await renderMedia({
+          serveUrl,
+          composition,
+          codec: 'h264',
+          hardwareAcceleration: HARDWARE_ACCELERATION,
+          ...(useHardwareEncoding
+            ? { videoBitrate: resolveVideoBitrate(output.quality) }
+            : { crf: 24, x264Preset: 'veryfast' }),
+          audioBitrate: '128k',
+          outputLocation: output.path,
+          overwrite: true,
+          inputProps: outputProps,
+          chromiumOptions,
+          port: remotionPort,
+          concurrency: RENDER_CONCURRENCY,
+          offthreadVideoThreads: OFFTHREAD_VIDEO_THREADS,
+          cancelSignal: controller.cancelSignal,
+          onProgress: ({ progress }) => {
+            if (controller.cancelled) {
+              return;
+            }
+            const clamped = Math.max(0, Math.min(1, Number(progress) || 0));
+            setProgress(PREPROCESS_MAX + (outputIndex + clamped) * renderSpan);
+          },
+        });
+
+        if (typeof output.loudnessTarget === 'number') {
+          updateJob(job.jobId, { stage: `Normalizing loudness to ${output.loudnessTarget} LUFS` });
+          loudness[outputIndex] = await normalizeLoudness(output.path, output.loudnessTarget, controller);
         }
-        const clamped = Math.max(0, Math.min(1, Number(progress) || 0));
-        setProgress(PREPROCESS_MAX + clamped * (100 - PREPROCESS_MAX));
-      },
+      }
     });
 
     updateJob(job.jobId, {
       status: 'completed',
+      stage: null,
       progress: 100,
       outputUrl: `/api/download/${job.jobId}`,
+      outputs: outputs.map((output, outputIndex) => ({
+        ...output,
+        url: `/api/download/${job.jobId}?output=${encodeURIComponent(output.id)}`,
+        ...(loudness[outputIndex] ? { loudness: loudness[outputIndex] } : {}),
+      })),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Render failed.';
-    updateJob(job.jobId, {
-      status: controller.cancelled ? 'cancelled' : 'failed',
-      error: controller.cancelled ? 'Render cancelled by user.' : message,
-    });
+    const failureClass = classifyFailure(error, controller);
+    if (failureClass === 'cancelled') {
+      updateJob(job.jobId, { status: 'cancelled', stage: null, failureClass, error: 'Render cancelled by user.' });
+      return;
+    }
+
+    const attempt = job.attempt ?? 1;
+    const message = summarizeError(error);
+    const attempts = [
+      ...(jobs.get(job.jobId)?.attempts ?? []),
+      { attempt, failureClass, error: message, at: new Date().toISOString() },
+    ];
+    if (TRANSIENT_FAILURES.includes(failureClass) && attempt < MAX_JOB_ATTEMPTS) {
+      const delayMs = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      job.attempt = attempt + 1;
+      job.retryAt = Date.now() + delayMs;
+      updateJob(job.jobId, {
+        status: 'queued',
+        stage: `Retrying in ${Math.round(delayMs / 1000)}s (attempt ${job.attempt}/${MAX_JOB_ATTEMPTS})`,
+        progress: 0,
+        attempt: job.attempt,
+        retryAt: job.retryAt,
+        failureClass,
+        attempts,
+        error: message,
+      });
+      queue.push(job);
+      return;
+    }
+
+    updateJob(job.jobId, { status: 'failed', stage: null, failureClass, attempts, error: message });
   } finally {
-    isRendering = false;
     jobControllers.delete(job.jobId);
-    processQueue();
   }
 };
 
+const resolveRequestClips = (body) => {
+  if (Array.isArray(body?.clips)) {
+    return body.clips.filter((clip) => typeof clip?.path === 'string' && clip.path);
+  }
+  // Older clients send a fixed intro/body pair instead of an ordered clip list.
+  return [body?.video1, body?.video2].filter((clip) => typeof clip?.path === 'string' && clip.path);
+};
+
+const MAX_PRIORITY = 100;
+
+const resolvePriority = (value) => Math.round(clampNumber(value, -MAX_PRIORITY, MAX_PRIORITY, 0));
+
+// Jobs waiting for a worker sit in `queue`; jobs holding a worker may still be waiting for a stage slot.
+const findPendingJob = (jobId) =>
+  queue.find((job) => job.jobId === jobId) ??
+  (['queued', 'normalizing'].includes(jobs.get(jobId)?.status) ? activeJobs.get(jobId) : null) ??
+  null;
+
+const applyQueueChanges = (changed) => {
+  changed.forEach((job) => updateJob(job.jobId, { priority: job.priority, sequence: job.sequence }));
+  Object.values(stageLimiters).forEach((limiter) => limiter.resort());
+};
+
+const setJobPriority = (jobId, priority) => {
+  const job = findPendingJob(jobId);
+  if (!job) {
+    return { ok: false, message: 'Only jobs that have not started rendering can be reprioritized.' };
+  }
+  job.priority = priority;
+  applyQueueChanges([job]);
+  return { ok: true, message: 'Priority updated.' };
+};
+
+// Reuses the listed jobs' own queue slots, so unlisted jobs keep their place.
+const reorderJobs = (jobIds) => {
+  const listed = jobIds.map((jobId) => findPendingJob(jobId)).filter(Boolean);
+  if (listed.length === 0) {
+    return [];
+  }
+  const sequences = listed.map((job) => job.sequence).sort((a, b) => a - b);
+  const priority = Math.max(...listed.map((job) => job.priority ?? 0));
+  listed.forEach((job, index) => {
+    job.sequence = sequences[index];
+    job.priority = priority;
+  });
+  applyQueueChanges(listed);
+  return listed.map((job) => job.jobId);
+};
+
+// The full job spec is persisted with its status so a batch's queued work is on disk, not just in memory.
 const enqueueJob = (job) => {
+  jobSequence += 1;
+  job.sequence = jobSequence;
+  job.priority = resolvePriority(job.priority);
   queue.push(job);
-  updateJob(job.jobId, {
+  const { jobId, ...spec } = job;
+  updateJob(jobId, {
     status: 'queued',
     progress: 0,
     name: job.name,
     outputPath: job.outputPath,
+    outputs: job.outputs,
+    batchId: job.batchId ?? null,
+    itemId: job.itemId ?? null,
+    resumeCount: job.resumeCount ?? 0,
+    priority: job.priority,
+    sequence: job.sequence,
+    createdAt: jobs.get(jobId)?.createdAt ?? new Date().toISOString(),
+    spec,
   });
   processQueue();
 };
 
+const createJobFromRequest = async (body) => {
+  const { name, frameFit, transition, captionStyle, overlay, textLayers, textFields, priority } = body || {};
+  const clips = resolveRequestClips(body);
+  if (clips.length === 0) {
+    return { ok: false, message: 'Missing video asset.' };
+  }
+
+  const jobId = crypto.randomUUID();
+  const outputName = sanitizeName(name || `render-${jobId}`);
+  const profiles = resolveOutputProfiles(body);
+  const outputs = profiles.map((profile) => ({
+    id: getOutputId(profile),
+    ...profile,
+    // A single output keeps the plain name so existing download scripts see the same file.
+    path: path.join(
+      OUTPUT_DIR,
+      profiles.length > 1 ? `${outputName}-${getOutputId(profile)}.mp4` : `${outputName}.mp4`
+    ),
+  }));
+
+  for (const clip of clips) {
+    const missingCaptions = typeof clip.captionsPath === 'string' && !(await fileExists(clip.captionsPath));
+    if (!(await fileExists(clip.path)) || missingCaptions) {
+      return { ok: false, message: 'Uploaded media missing on disk. Please re-upload and try again.' };
+    }
+  }
+
+  const resolvedOverlay = resolveOverlay(overlay);
+  if (resolvedOverlay && !(await fileExists(resolvedOverlay.path))) {
+    return { ok: false, message: 'Uploaded overlay missing on disk. Please re-upload and try again.' };
+  }
+
+  const audioCues = resolveAudioCues(body);
+  for (const cue of audioCues) {
+    if (!(await fileExists(cue.path))) {
+      return { ok: false, message: 'Uploaded audio missing on disk. Please re-upload and try again.' };
+    }
+  }
+
+  return {
+    ok: true,
+    job: {
+      jobId,
+      name: outputName,
+      priority: resolvePriority(priority),
+      outputPath: outputs[0].path,
+      outputs,
+      frameFit: resolveFrameFit(frameFit),
+      clipPaths: clips.map((clip) => clip.path),
+      captionPaths: clips.map((clip) => (typeof clip.captionsPath === 'string' && clip.captionsPath) || null),
+      clipAudio: clips.map(resolveClipAudio),
+      transition: resolveTransition(transition),
+      captionStyle: resolveCaptionStyle(captionStyle),
+      overlay: resolvedOverlay,
+      textLayers: resolveTextLayers(textLayers),
+      textFields: resolveTextFields(textFields),
+      audioCues,
+    },
+  };
+};
+
+const summarizeBatch = (batch) => {
+  const batchJobs = batch.jobIds.map((jobId) => ({ jobId, ...jobs.get(jobId) }));
+  const counts = { queued: 0, active: 0, completed: 0, failed: 0, cancelled: 0 };
+  batchJobs.forEach((job) => {
+    if (job.status === 'queued') {
+      counts.queued += 1;
+    } else if (ACTIVE_JOB_STATUSES.includes(job.status)) {
+      counts.active += 1;
+    } else if (job.status in counts) {
+      counts[job.status] += 1;
+    }
+  });
+  return { ...batch, total: batch.jobIds.length, counts, done: counts.queued + counts.active === 0 };
+};
+
 const cancelJob = (jobId) => {
   const job = jobs.get(jobId);
   if (!job) {
@@ -896,6 +2303,7 @@ const cancelJob = (jobId) => {
   if (controller) {
     controller.cancelled = true;
     controller.cancel();
+    controller.abortWait?.();
     if (controller.activeProcesses) {
       controller.activeProcesses.forEach((proc) => proc.kill('SIGKILL'));
       controller.activeProcesses.clear();
@@ -906,20 +2314,35 @@ const cancelJob = (jobId) => {
   const queuedIndex = queue.findIndex((queued) => queued.jobId === jobId);
   if (queuedIndex >= 0) {
     queue.splice(queuedIndex, 1);
-    updateJob(jobId, { status: 'cancelled', error: 'Render cancelled by user.' });
+    updateJob(jobId, { status: 'cancelled', stage: null, error: 'Render cancelled by user.' });
     return { ok: true, message: 'Job cancelled.' };
   }
 
-  updateJob(jobId, { status: 'cancelled', error: 'Render cancelled by user.' });
+  updateJob(jobId, { status: 'cancelled', stage: null, error: 'Render cancelled by user.' });
   return { ok: true, message: 'Job cancelled.' };
 };
 
+const hasJobInputs = async (spec) => {
+  const inputs = getJobInputs(spec);
+  if (!Array.isArray(spec.clipPaths) || spec.clipPaths.length === 0) {
+    return false;
+  }
+  for (const inputPath of inputs) {
+    if (!(await fileExists(inputPath))) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Returns the interrupted jobs that can be queued again once the bundle is ready.
 const loadJobsFromDisk = async () => {
+  const resumable = [];
   try {
     const data = await fs.readFile(JOBS_FILE, 'utf-8');
     const parsed = JSON.parse(data);
     if (!Array.isArray(parsed)) {
-      return;
+      return resumable;
     }
     parsed.forEach((job) => {
       if (!job?.jobId) {
@@ -927,32 +2350,182 @@ const loadJobsFromDisk = async () => {
       }
       jobs.set(job.jobId, { ...job });
     });
-    jobs.forEach((job, jobId) => {
-      if (job.status === 'rendering' || job.status === 'queued' || job.status === 'normalizing' || job.status === 'cancelling') {
+    const interrupted = Array.from(jobs.entries())
+      .filter(([, job]) => ACTIVE_JOB_STATUSES.includes(job.status))
+      .sort(([, a], [, b]) => compareQueuedJobs(a, b));
+    for (const [jobId, job] of interrupted) {
+      const resumeCount = Number(job.resumeCount) || 0;
+      if (job.status === 'cancelling') {
+        updateJob(jobId, { status: 'cancelled', stage: null, error: 'Render cancelled by user.' });
+      } else if (!RESUME_INTERRUPTED_JOBS || !job.spec) {
+        updateJob(jobId, { status: 'failed', stage: null, error: 'Render server restarted before completion.' });
+      } else if (resumeCount >= MAX_JOB_RESUMES) {
+        updateJob(jobId, {
+          status: 'failed',
+          stage: null,
+          error: `Render server restarted before completion (already resumed ${resumeCount} times).`,
+        });
+      } else if (!(await hasJobInputs(job.spec))) {
         updateJob(jobId, {
           status: 'failed',
-          error: 'Render server restarted before completion.',
+          stage: null,
+          error: 'Render server restarted before completion and the uploaded media is gone. Please re-upload.',
+        });
+      } else {
+        resumable.push({
+          jobId,
+          ...job.spec,
+          priority: job.priority,
+          resumeCount: resumeCount + 1,
+          attempt: job.attempt,
+          retryAt: job.retryAt,
         });
       }
-    });
+    }
   } catch (error) {
     if (error?.code !== 'ENOENT') {
       console.warn('[render-server] Failed to load jobs file.', error);
     }
   }
+  return resumable;
+};
+
+const loadBatchesFromDisk = async () => {
+  try {
+    const parsed = JSON.parse(await fs.readFile(BATCHES_FILE, 'utf-8'));
+    (Array.isArray(parsed) ? parsed : []).forEach((batch) => {
+      if (batch?.batchId && Array.isArray(batch.jobIds)) {
+        batches.set(batch.batchId, batch);
+      }
+    });
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      console.warn('[render-server] Failed to load batches file.', error);
+    }
+  }
+};
+
+const loadQueueStateFromDisk = async () => {
+  try {
+    const parsed = JSON.parse(await fs.readFile(QUEUE_STATE_FILE, 'utf-8'));
+    queuePausedAt = typeof parsed?.pausedAt === 'string' ? parsed.pausedAt : null;
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      console.warn('[render-server] Failed to load queue state file.', error);
+    }
+  }
+};
+
+const loadCacheStateFromDisk = async () => {
+  try {
+    const parsed = JSON.parse(await fs.readFile(CACHE_STATE_FILE, 'utf-8'));
+    if (Number.isFinite(parsed?.maxBytes) && parsed.maxBytes > 0) {
+      cacheBudgetBytes = parsed.maxBytes;
+    }
+    Object.entries(parsed?.lastUsed ?? {}).forEach(([filePath, usedAt]) => {
+      if (Number.isFinite(usedAt)) {
+        fileLastUsed.set(filePath, usedAt);
+      }
+    });
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      console.warn('[render-server] Failed to load cache state.', error);
+    }
+  }
+};
+
+const loadScheduleFromDisk = async () => {
+  try {
+    renderSchedule = sanitizeSchedule(JSON.parse(await fs.readFile(SCHEDULE_FILE, 'utf-8')));
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      console.warn('[render-server] Failed to load schedule file.', error);
+    }
+  }
+};
+
+const loadUploadIndexFromDisk = async () => {
+  try {
+    const parsed = JSON.parse(await fs.readFile(UPLOAD_INDEX_FILE, 'utf-8'));
+    (Array.isArray(parsed) ? parsed : []).forEach((entry) => {
+      if (SHA256_PATTERN.test(entry?.sha256 ?? '') && typeof entry.path === 'string') {
+        uploadIndex.set(entry.sha256, {
+          ...entry,
+          assets: Array.isArray(entry.assets) ? entry.assets : [],
+          orphanedAt: entry.orphanedAt ?? null,
+        });
+      }
+    });
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      console.warn('[render-server] Failed to load upload index.', error);
+    }
+  }
+};
+
+const loadUploadSessionsFromDisk = async () => {
+  const entries = await fs.readdir(UPLOAD_SESSION_DIR).catch(() => []);
+  for (const entry of entries.filter((name) => name.endsWith('.json'))) {
+    const metaPath = path.join(UPLOAD_SESSION_DIR, entry);
+    try {
+      const session = JSON.parse(await fs.readFile(metaPath, 'utf-8'));
+      const stale = Date.now() - Date.parse(session.updatedAt) > UPLOAD_SESSION_TTL_MS;
+      if (stale || !(await fileExists(session.dataPath))) {
+        await removeUploadSession(session);
+        continue;
+      }
+      uploadSessions.set(session.uploadId, { ...session, completing: false });
+    } catch (error) {
+      console.warn(`[render-server] Dropping unreadable upload session ${entry}.`, error);
+      await fs.rm(metaPath, { force: true });
+    }
+  }
+  // Chunk files whose session record is gone can never be completed.
+  await Promise.all(
+    entries
+      .filter((name) => name.endsWith('.part') && !uploadSessions.has(name.slice(0, -'.part'.length)))
+      .map((name) => fs.rm(path.join(UPLOAD_SESSION_DIR, name), { force: true }))
+  );
 };
 
 const bootstrap = async () => {
   await ensureDir(UPLOAD_DIR);
+  // Leftovers from uploads cut off by a restart.
+  await fs.rm(INCOMING_DIR, { recursive: true, force: true });
+  await ensureDir(INCOMING_DIR);
+  await ensureDir(UPLOAD_SESSION_DIR);
   await ensureDir(OUTPUT_DIR);
   await ensureDir(TRANSCODE_DIR);
   await ensureDir(CACHE_VIDEO_DIR);
   await ensureDir(CACHE_AUDIO_DIR);
-  await loadJobsFromDisk();
+  await loadUploadIndexFromDisk();
+  await loadUploadSessionsFromDisk();
+  await loadCacheStateFromDisk();
+  const resumableJobs = await loadJobsFromDisk();
+  await loadBatchesFromDisk();
+  await loadQueueStateFromDisk();
+  await loadScheduleFromDisk();
   serveUrl = await buildBundle();
+  if (resumableJobs.length > 0) {
+    console.log(`[render-server] Resuming ${resumableJobs.length} job(s) interrupted by a restart.`);
+    resumableJobs.forEach((job) => {
+      updateJob(job.jobId, { stage: 'Resumed after restart', progress: 0, error: null });
+      enqueueJob(job);
+    });
+  }
+  await releaseOrphanedUploads();
+  await enforceCacheBudget();
+  if (queuePausedAt) {
+    console.log(`[render-server] Queue is paused (since ${queuePausedAt}); resume it to start queued jobs.`);
+  }
+  if (renderSchedule.enabled) {
+    console.log(`[render-server] Render schedule active with ${renderSchedule.windows.length} window(s).`);
+  }
+  // Picks up queued jobs when a window opens and marks them as waiting when it closes.
+  setInterval(processQueue, SCHEDULE_CHECK_INTERVAL_MS);
 
   console.log(
-    `[render-server] Settings: concurrency=${RENDER_CONCURRENCY}, offthreadVideoThreads=${OFFTHREAD_VIDEO_THREADS}, hardwareAcceleration=${HARDWARE_ACCELERATION}`
+    `[render-server] Settings: concurrency=${RENDER_CONCURRENCY}, offthreadVideoThreads=${OFFTHREAD_VIDEO_THREADS}, hardwareAcceleration=${HARDWARE_ACCELERATION}, parallelJobs=${MAX_PARALLEL_JOBS}, normalizeSlots=${NORMALIZE_SLOTS}, renderSlots=${RENDER_SLOTS}`
   );
 
   const app = express();
@@ -962,7 +2535,7 @@ const bootstrap = async () => {
   app.use('/cache', express.static(CACHE_DIR));
 
   app.get('/api/health', (_, res) => {
-    res.json({ ok: true });
+    res.json({ ok: true, pool: getPoolState() });
   });
 
   app.get('/api/cache/stats', async (_, res) => {
@@ -974,29 +2547,51 @@ const bootstrap = async () => {
     }
   });
 
+  app.post('/api/cache/budget', async (req, res) => {
+    const maxGb = Number(req.body?.maxGb);
+    if (!Number.isFinite(maxGb) || maxGb <= 0) {
+      res.status(400).json({ error: 'Cache budget must be a positive number of GB.' });
+      return;
+    }
+    cacheBudgetBytes = Math.round(maxGb * GB);
+    schedulePersistJobs();
+    try {
+      const evicted = await enforceCacheBudget();
+      res.json({ ok: true, maxBytes: cacheBudgetBytes, evicted });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to apply cache budget.' });
+    }
+  });
+
+  // `categories` picks what to delete (uploads, cache, outputs, bundle); without it everything goes.
   app.post('/api/cache/clear', async (req, res) => {
     try {
+      const categories = Array.isArray(req.body?.categories)
+        ? CACHE_CATEGORIES.filter((category) => req.body.categories.includes(category))
+        : CACHE_CATEGORIES;
+      if (categories.length === 0) {
+        res.status(400).json({ error: `Choose at least one of: ${CACHE_CATEGORIES.join(', ')}.` });
+        return;
+      }
       const force = Boolean(req.body?.force);
       if (hasActiveWork() && !force) {
         res.status(409).json({ error: 'Cannot clear cache while a render is active. Cancel renders first.' });
         return;
       }
 
-      if (force) {
-        jobControllers.forEach((controller) => {
-          controller.cancelled = true;
-          controller.cancel();
-          if (controller.activeProcesses) {
-            controller.activeProcesses.forEach((proc) => proc.kill('SIGKILL'));
-            controller.activeProcesses.clear();
-          }
-        });
+      cacheClearing = true;
+      try {
+        if (force) {
+          await stopJobsForCacheClear(categories);
+        }
+        const before = await getCacheStats();
+        await clearRenderCache(categories);
+        const after = await getCacheStats();
+        res.json({ ok: true, categories, before, after });
+      } finally {
+        cacheClearing = false;
+        processQueue();
       }
-
-      const before = await getCacheStats();
-      await clearRenderCache();
-      const after = await getCacheStats();
-      res.json({ ok: true, before, after });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to clear cache.' });
     }
@@ -1011,72 +2606,311 @@ const bootstrap = async () => {
     }
   });
 
-  app.post('/api/upload', upload.single('file'), (req, res) => {
-    if (!req.file) {
-      res.status(400).json({ error: 'No file provided.' });
+  // Hash-first handshake: clients skip sending media the server already holds.
+  app.post('/api/upload/check', async (req, res) => {
+    const sha256 = String(req.body?.sha256 ?? '').toLowerCase();
+    if (!SHA256_PATTERN.test(sha256)) {
+      res.status(400).json({ error: 'Invalid sha256.' });
+      return;
+    }
+    const entry = await findStoredUpload(sha256);
+    if (!entry) {
+      res.json({ exists: false });
       return;
     }
-    res.json({ path: req.file.path });
+    addUploadRef(entry, toUploadAssetId(req.body?.assetId));
+    res.json({ exists: true, path: entry.path, sha256 });
   });
 
-  app.post('/api/render', async (req, res) => {
+  app.post('/api/upload', upload.single('file'), async (req, res) => {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file provided.' });
+      return;
+    }
     try {
-      const { name, exportQuality, video1, video2, bgm } = req.body || {};
-      if (!video1?.path) {
-        res.status(400).json({ error: 'Missing video asset.' });
+      const sha256 = await hashFile(req.file.path);
+      const expected = String(req.body?.sha256 ?? '').toLowerCase();
+      if (expected && expected !== sha256) {
+        await fs.rm(req.file.path, { force: true });
+        res.status(400).json({ error: 'Upload does not match its checksum. Please retry.' });
         return;
       }
+      const { entry, deduplicated } = await storeUpload(
+        req.file.path,
+        sha256,
+        req.file.originalname,
+        toUploadAssetId(req.body?.assetId)
+      );
+      res.json({ path: entry.path, sha256, deduplicated });
+    } catch (error) {
+      await fs.rm(req.file.path, { force: true }).catch(() => {});
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to store upload.' });
+    }
+  });
+
+  // Chunked uploads: create (or resume) a session, send each chunk with its SHA-256, then complete.
+  app.post('/api/uploads', async (req, res) => {
+    const size = Number(req.body?.size);
+    if (!Number.isSafeInteger(size) || size < 0) {
+      res.status(400).json({ error: 'Invalid upload size.' });
+      return;
+    }
+    const sha256 = String(req.body?.sha256 ?? '').toLowerCase();
+    try {
+      const session = await createUploadSession({
+        assetId: toUploadAssetId(req.body?.assetId),
+        name: String(req.body?.name ?? 'upload'),
+        size,
+        sha256: SHA256_PATTERN.test(sha256) ? sha256 : null,
+      });
+      res.json(toPublicUploadSession(session));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to start upload.' });
+    }
+  });
 
-      const jobId = crypto.randomUUID();
-      const outputName = sanitizeName(name || `render-${jobId}`);
-      const outputPath = path.join(OUTPUT_DIR, `${outputName}.mp4`);
+  app.get('/api/uploads/:uploadId', (req, res) => {
+    const session = uploadSessions.get(req.params.uploadId);
+    if (!session) {
+      res.status(404).json({ error: 'Upload not found.' });
+      return;
+    }
+    res.json(toPublicUploadSession(session));
+  });
 
-      const video1Exists = await fileExists(video1.path);
-      if (!video1Exists) {
-        res.status(400).json({ error: 'Uploaded media missing on disk. Please re-upload and try again.' });
+  app.put(
+    '/api/uploads/:uploadId/chunks/:index',
+    express.raw({ type: () => true, limit: UPLOAD_CHUNK_BYTES + 1024 }),
+    async (req, res) => {
+      const session = uploadSessions.get(req.params.uploadId);
+      if (!session || session.completing) {
+        res.status(404).json({ error: 'Upload not found.' });
         return;
       }
-      if (video2?.path) {
-        const video2Exists = await fileExists(video2.path);
-        if (!video2Exists) {
-          res.status(400).json({ error: 'Uploaded media missing on disk. Please re-upload and try again.' });
+      try {
+        const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const expectedSha256 = String(req.get('X-Chunk-Sha256') ?? '').toLowerCase() || null;
+        const result = await writeUploadChunk(session, Number(req.params.index), data, expectedSha256);
+        if (!result.ok) {
+          res.status(400).json({ error: result.message });
           return;
         }
+        res.json({ ok: true, receivedChunks: session.receivedChunks.length, totalChunks: session.totalChunks });
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to store chunk.' });
+      }
+    }
+  );
+
+  app.post('/api/uploads/:uploadId/complete', async (req, res) => {
+    const session = uploadSessions.get(req.params.uploadId);
+    if (!session || session.completing) {
+      res.status(404).json({ error: 'Upload not found.' });
+      return;
+    }
+    try {
+      const { ok, status, message, ...result } = await completeUploadSession(session);
+      if (!ok) {
+        res.status(status).json({ error: message, ...result });
+        return;
       }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to finish upload.' });
+    }
+  });
 
-      const bgmVolume = bgm ? resolveVolumeGain(bgm) : 1;
-
-      enqueueJob({
-        jobId,
-        name: outputName,
-        outputPath,
-        exportQuality: exportQuality || '720p',
-        video1Path: video1.path,
-        video2Path: video2?.path || null,
-        bgm: bgm?.path
-          ? {
-              path: bgm.path,
-              playLength: Number(bgm.playLength || 0),
-              volume: bgmVolume,
-              mode: bgm.mode,
-              startTime: Number(bgm.startTime || 0),
-              loop: Boolean(bgm.loop),
-            }
-          : null,
-      });
-      res.json({ jobId });
+  app.post('/api/render', async (req, res) => {
+    try {
+      const result = await createJobFromRequest(req.body);
+      if (!result.ok) {
+        res.status(400).json({ error: result.message });
+        return;
+      }
+      enqueueJob(result.job);
+      res.json({ jobId: result.job.jobId });
     } catch (error) {
       res.status(500).json({ error: error instanceof Error ? error.message : 'Render job failed.' });
     }
   });
 
+  // Each item is validated on its own: valid items are queued and the rest come back in `errors`.
+  const addBatchItems = async (batch, items) => {
+    const added = [];
+    const errors = [];
+    for (const [index, item] of items.entries()) {
+      const itemId = typeof item?.itemId === 'string' ? item.itemId : null;
+      const result = await createJobFromRequest(item);
+      if (!result.ok) {
+        errors.push({ index, itemId, error: result.message });
+        continue;
+      }
+      batch.jobIds.push(result.job.jobId);
+      enqueueJob({ ...result.job, batchId: batch.batchId, itemId });
+      added.push({ itemId, jobId: result.job.jobId });
+    }
+    return { jobs: added, errors };
+  };
+
+  const sendBatchResult = (res, batch, result) => {
+    if (result.jobs.length === 0) {
+      res.status(400).json({ error: `${result.errors.length} batch item(s) were rejected.`, errors: result.errors });
+      return;
+    }
+    res.json({ batchId: batch.batchId, ...result });
+  };
+
+  app.post('/api/batches', async (req, res) => {
+    try {
+      const items = Array.isArray(req.body?.items) ? req.body.items : [];
+      if (items.length === 0) {
+        res.status(400).json({ error: 'A batch needs at least one item.' });
+        return;
+      }
+
+      const batch = {
+        batchId: crypto.randomUUID(),
+        name: typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name.trim() : `Batch ${batches.size + 1}`,
+        createdAt: new Date().toISOString(),
+        jobIds: [],
+      };
+      batches.set(batch.batchId, batch);
+      const result = await addBatchItems(batch, items);
+      if (result.jobs.length === 0) {
+        batches.delete(batch.batchId);
+      }
+      sendBatchResult(res, batch, result);
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Batch could not be created.' });
+    }
+  });
+
+  // Lets a client queue items as their uploads finish instead of waiting for the whole batch.
+  app.post('/api/batches/:batchId/items', async (req, res) => {
+    try {
+      const batch = batches.get(req.params.batchId);
+      if (!batch) {
+        res.status(404).json({ error: 'Batch not found.' });
+        return;
+      }
+      const items = Array.isArray(req.body?.items) ? req.body.items : [];
+      if (items.length === 0) {
+        res.status(400).json({ error: 'No items to add.' });
+        return;
+      }
+      sendBatchResult(res, batch, await addBatchItems(batch, items));
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Items could not be added.' });
+    }
+  });
+
+  app.get('/api/batches', (_, res) => {
+    res.json({ batches: Array.from(batches.values()).map(summarizeBatch).reverse() });
+  });
+
+  app.get('/api/batches/:batchId', (req, res) => {
+    const batch = batches.get(req.params.batchId);
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found.' });
+      return;
+    }
+    const batchJobs = batch.jobIds.map((jobId) => ({ jobId, ...toPublicJob(jobs.get(jobId) || { status: 'missing' }) }));
+    res.json({ ...summarizeBatch(batch), jobs: batchJobs });
+  });
+
+  app.post('/api/batches/:batchId/cancel', (req, res) => {
+    const batch = batches.get(req.params.batchId);
+    if (!batch) {
+      res.status(404).json({ error: 'Batch not found.' });
+      return;
+    }
+    // Cancel queued jobs first so none of them starts while the active ones are stopping.
+    const ordered = [...batch.jobIds].sort(
+      (a, b) => Number(jobs.get(b)?.status === 'queued') - Number(jobs.get(a)?.status === 'queued')
+    );
+    ordered.forEach((jobId) => {
+      if (ACTIVE_JOB_STATUSES.includes(jobs.get(jobId)?.status)) {
+        cancelJob(jobId);
+      }
+    });
+    res.json({ ok: true });
+  });
+
+  // Pushes every job update to the UI; the snapshot lets reconnecting clients notice jobs lost in a restart.
+  app.get('/api/events', (req, res) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+    writeEvent(
+      res,
+      'snapshot',
+      Object.fromEntries(Array.from(jobs.entries()).map(([jobId, job]) => [jobId, toPublicJob(job)]))
+    );
+    eventClients.add(res);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      eventClients.delete(res);
+    });
+  });
+
   app.get('/api/render/:jobId', (req, res) => {
     const job = jobs.get(req.params.jobId);
     if (!job) {
       res.status(404).json({ status: 'missing' });
       return;
     }
-    res.json(job);
+    res.json(toPublicJob(job));
+  });
+
+  // `{ next: true }` moves the job ahead of everything else that has not started rendering.
+  app.post('/api/render/:jobId/priority', (req, res) => {
+    const pendingPriorities = [...queue, ...activeJobs.values()].map((job) => job.priority ?? 0);
+    const priority = req.body?.next
+      ? Math.min(MAX_PRIORITY, Math.max(0, ...pendingPriorities) + 1)
+      : resolvePriority(req.body?.priority);
+    const result = setJobPriority(req.params.jobId, priority);
+    if (!result.ok) {
+      res.status(409).json({ error: result.message });
+      return;
+    }
+    res.json({ ok: true, priority });
+  });
+
+  app.get('/api/queue', (_, res) => {
+    const pending = [...queue].sort(compareQueuedJobs);
+    res.json({
+      ...getQueueState(),
+      jobs: pending.map((job) => ({ jobId: job.jobId, name: job.name, priority: job.priority, batchId: job.batchId ?? null })),
+    });
+  });
+
+  app.get('/api/schedule', (_, res) => {
+    res.json({ ...renderSchedule, state: getScheduleState() });
+  });
+
+  app.post('/api/schedule', async (req, res) => {
+    try {
+      res.json({ ok: true, ...(await setRenderSchedule(req.body)) });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Unable to save schedule.' });
+    }
+  });
+
+  app.post('/api/queue/pause', (_, res) => {
+    res.json({ ok: true, ...setQueuePaused(true) });
+  });
+
+  app.post('/api/queue/resume', (_, res) => {
+    res.json({ ok: true, ...setQueuePaused(false) });
+  });
+
+  app.post('/api/queue/reorder', (req, res) => {
+    const jobIds = Array.isArray(req.body?.jobIds) ? req.body.jobIds.filter((jobId) => typeof jobId === 'string') : [];
+    res.json({ ok: true, jobIds: reorderJobs(jobIds) });
   });
 
   app.post('/api/render/:jobId/cancel', (req, res) => {
@@ -1094,7 +2928,15 @@ const bootstrap = async () => {
       res.status(404).json({ error: 'Output not ready.' });
       return;
     }
-    res.download(job.outputPath, path.basename(job.outputPath));
+    const outputs = Array.isArray(job.outputs) ? job.outputs : [];
+    const requestedId = typeof req.query.output === 'string' ? req.query.output : null;
+    const output = requestedId ? outputs.find((item) => item.id === requestedId) : outputs[0];
+    if (requestedId && !output) {
+      res.status(404).json({ error: 'Unknown output for this job.' });
+      return;
+    }
+    const filePath = output?.path ?? job.outputPath;
+    res.download(filePath, path.basename(filePath));
   });
 
   app.listen(PORT, () => {
@@ -0,0 +1,182 @@
+import { FailureClass, ProjectConfig } from './types';
+import { readRenderOutputs } from './outputProfiles';
+
+export interface RenderJobStatus {
+  status: string;
+  progress?: number;
+  stage?: string | null;
+  error?: string | null;
+  failureClass?: FailureClass;
+  attempts?: unknown[];
+  outputUrl?: string;
+  outputs?: unknown;
+}
+
+// `null` means the server no longer knows the job, usually because it restarted.
+type JobListener = (job: RenderJobStatus | null) => void;
+
+const POLL_INTERVAL_MS = 1000;
+const ACTIVE_STATUSES = ['queued', 'normalizing', 'rendering', 'cancelling'];
+
+const listeners = new Map<string, Set<JobListener>>();
+const pollers = new Set<string>();
+let source: EventSource | null = null;
+let streamUnavailable = typeof EventSource === 'undefined';
+
+const notify = (jobId: string, job: RenderJobStatus | null) => {
+  listeners.get(jobId)?.forEach((listener) => listener(job));
+};
+
+const fetchJob = async (jobId: string): Promise<RenderJobStatus | null> => {
+  try {
+    const response = await fetch(`/api/render/${jobId}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error('Unable to fetch render status.');
+    }
+    return (await response.json()) as RenderJobStatus;
+  } catch (error) {
+    return { status: 'failed', error: error instanceof Error ? error.message : 'Render status check failed.' };
+  }
+};
+
+const isFinished = (job: RenderJobStatus | null) => !job || !ACTIVE_STATUSES.includes(job.status);
+
+// One poller per job, shared by every listener, for servers or browsers without the event stream.
+const startPolling = (jobId: string) => {
+  if (pollers.has(jobId)) {
+    return;
+  }
+  pollers.add(jobId);
+  const poll = async () => {
+    while (listeners.has(jobId)) {
+      const job = await fetchJob(jobId);
+      notify(jobId, job);
+      if (isFinished(job)) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+    pollers.delete(jobId);
+  };
+  poll();
+};
+
+const fallBackToPolling = () => {
+  streamUnavailable = true;
+  source?.close();
+  source = null;
+  listeners.forEach((_, jobId) => startPolling(jobId));
+};
+
+const openStream = () => {
+  if (source || streamUnavailable) {
+    return;
+  }
+  source = new EventSource('/api/events');
+  source.addEventListener('job', (event) => {
+    const { jobId, ...job } = JSON.parse((event as MessageEvent).data);
+    notify(jobId, job as RenderJobStatus);
+  });
+  source.addEventListener('snapshot', (event) => {
+    const snapshot = JSON.parse((event as MessageEvent).data) as Record<string, RenderJobStatus>;
+    listeners.forEach((_, jobId) => notify(jobId, snapshot[jobId] ?? null));
+  });
+  source.onerror = () => {
+    // EventSource retries dropped connections itself; CLOSED means the endpoint is missing or refused.
+    if (source?.readyState === EventSource.CLOSED) {
+      fallBackToPolling();
+    }
+  };
+};
+
+export const watchRenderJob = (jobId: string, listener: JobListener) => {
+  const jobListeners = listeners.get(jobId) ?? new Set<JobListener>();
+  jobListeners.add(listener);
+  listeners.set(jobId, jobListeners);
+
+  if (streamUnavailable) {
+    startPolling(jobId);
+  } else {
+    openStream();
+    // The stream only carries changes, so read the current state once.
+    fetchJob(jobId).then((job) => {
+      if (jobListeners.has(listener)) {
+        listener(job);
+      }
+    });
+  }
+
+  return () => {
+    jobListeners.delete(listener);
+    if (jobListeners.size === 0) {
+      listeners.delete(jobId);
+    }
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+};
+
+export const getQueueUpdate = (job: RenderJobStatus | null): { updates: Partial<ProjectConfig>; done: boolean } => {
+  if (!job) {
+    return {
+      updates: { status: 'FAILED', progress: 0, errorMessage: 'Render job missing. The server may have restarted.' },
+      done: true,
+    };
+  }
+  const progress = typeof job.progress === 'number' ? job.progress : 0;
+  switch (job.status) {
+    case 'completed':
+      return {
+        updates: {
+          status: 'COMPLETED',
+          progress: 100,
+          renderStage: undefined,
+          outputUrl: job.outputUrl || undefined,
+          renderOutputs: readRenderOutputs(job.outputs),
+          errorMessage: undefined,
+          failureClass: undefined,
+        },
+        done: true,
+      };
+    case 'failed':
+      return {
+        updates: {
+          status: 'FAILED',
+          progress,
+          renderStage: undefined,
+          errorMessage: job.error || 'Render failed.',
+          failureClass: job.failureClass ?? 'unknown',
+          attemptCount: Array.isArray(job.attempts) ? job.attempts.length : undefined,
+        },
+        done: true,
+      };
+    case 'cancelled':
+      return {
+        updates: {
+          status: 'CANCELLED',
+          progress,
+          renderStage: undefined,
+          errorMessage: job.error || 'Render cancelled by user.',
+        },
+        done: true,
+      };
+    default:
+      return {
+        updates: {
+          status: 'RENDERING',
+          progress,
+          renderStage: job.stage || undefined,
+          outputUrl: undefined,
+          renderOutputs: undefined,
+          errorMessage: undefined,
+          failureClass: undefined,
+        },
+        done: false,
+      };
+  }
+};
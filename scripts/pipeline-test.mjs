@@ -127,6 +127,22 @@ const probeDuration = async (filePath) => {
   return Number(stdout.trim());
 };
 
+const probeSize = async (filePath) => {
+  const { stdout } = await run('ffprobe', [
+    '-v',
+    'error',
+    '-select_streams',
+    'v:0',
+    '-show_entries',
+    'stream=width,height',
+    '-of',
+    'csv=p=0',
+    filePath,
+  ]);
+  const [width, height] = stdout.trim().split(',').map(Number);
+  return { width, height };
+};
+
 const detectSilenceEnd = async (filePath) => {
   const { stderr } = await run('ffmpeg', [
     '-v',
@@ -272,6 +288,53 @@ const main = async () => {
     const uploaded3 = await uploadFile({ baseUrl, assetId: asset3, filePath: audio, contentType: 'audio/mp4' });
     const uploaded4 = await uploadFile({ baseUrl, assetId: asset4, filePath: video30WithAudio, contentType: 'video/mp4' });
 
+    // The same content under another asset is stored once, and purging that asset keeps the shared file.
+    const duplicateAsset = crypto.randomBytes(6).toString('hex');
+    const duplicate = await uploadFile({ baseUrl, assetId: duplicateAsset, filePath: video30, contentType: 'video/mp4' });
+    if (duplicate !== uploaded1) {
+      throw new Error(`expected identical uploads to share a file, got ${duplicate} and ${uploaded1}`);
+    }
+    const video30Hash = crypto.createHash('sha256').update(await fs.readFile(video30)).digest('hex');
+    const checkRes = await fetch(`${baseUrl}/api/upload/check`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sha256: video30Hash, assetId: duplicateAsset }),
+    });
+    const check = await checkRes.json();
+    if (!check.exists || check.path !== uploaded1) {
+      throw new Error(`upload check did not find stored content: ${JSON.stringify(check)}`);
+    }
+    await fetch(`${baseUrl}/api/asset/${duplicateAsset}/purge`, { method: 'POST' });
+    await fs.access(uploaded1);
+
+    // Chunked uploads verify every chunk and land on the same content-addressed file.
+    const video25Buffer = await fs.readFile(video25);
+    const sessionRes = await fetch(`${baseUrl}/api/uploads`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ assetId: asset2, name: path.basename(video25), size: video25Buffer.length }),
+    });
+    const uploadSession = await sessionRes.json();
+    for (let index = 0; index < uploadSession.totalChunks; index += 1) {
+      const chunk = video25Buffer.subarray(index * uploadSession.chunkSize, (index + 1) * uploadSession.chunkSize);
+      const chunkRes = await fetch(`${baseUrl}/api/uploads/${uploadSession.uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'X-Chunk-Sha256': crypto.createHash('sha256').update(chunk).digest('hex'),
+        },
+        body: chunk,
+      });
+      if (!chunkRes.ok) {
+        throw new Error(`chunk upload failed: ${chunkRes.status} ${await chunkRes.text()}`);
+      }
+    }
+    const chunkedRes = await fetch(`${baseUrl}/api/uploads/${uploadSession.uploadId}/complete`, { method: 'POST' });
+    const chunked = await chunkedRes.json();
+    if (!chunkedRes.ok || chunked.path !== uploaded2 || !chunked.deduplicated) {
+      throw new Error(`unexpected chunked upload result: ${JSON.stringify(chunked)}`);
+    }
+
     const renderRes = await fetch(`${baseUrl}/api/render`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -280,7 +343,7 @@ const main = async () => {
         exportQuality: '720p',
         video1: { path: uploaded1, duration: 3 },
         video2: { path: uploaded2, duration: 3 },
-        bgm: { path: uploaded3, playLength: 6, volumeDb: -14, mode: 'FULL', loop: false },
+        bgm: { path: uploaded3, playLength: 6, volumeDb: -14, fadeIn: 1, fadeOut: 1.5, mode: 'FULL', loop: false },
       }),
     });
 
@@ -407,9 +470,200 @@ const main = async () => {
       );
     }
 
+    const renderResMuted = await fetch(`${baseUrl}/api/render`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: `pipeline-muted-${Date.now()}`,
+        exportQuality: '720p',
+        clips: [{ path: uploaded4, duration: 3, muted: true }],
+      }),
+    });
+
+    if (!renderResMuted.ok) {
+      throw new Error(`create muted job failed: ${renderResMuted.status} ${await renderResMuted.text()}`);
+    }
+
+    const { jobId: mutedJobId } = await renderResMuted.json();
+    await pollJob({ baseUrl, jobId: mutedJobId });
+
+    const mutedOutPath = path.join(TEST_DIR, `output-muted-${mutedJobId}.mp4`);
+    const mutedDl = await fetch(`${baseUrl}/api/download/${mutedJobId}`);
+    if (!mutedDl.ok) {
+      throw new Error(`muted download failed: ${mutedDl.status}`);
+    }
+    await fs.writeFile(mutedOutPath, Buffer.from(await mutedDl.arrayBuffer()));
+
+    const mutedVolume = await probeVolume(mutedOutPath);
+    if (mutedVolume.maxDb !== null && mutedVolume.maxDb > -60) {
+      throw new Error(`expected a muted clip to render silent, got max=${mutedVolume.maxDb}dB`);
+    }
+
+    const renderResSequence = await fetch(`${baseUrl}/api/render`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: `pipeline-sequence-${Date.now()}`,
+        exportQuality: '720p',
+        clips: [
+          { path: uploaded1, duration: 3 },
+          { path: uploaded2, duration: 3 },
+          { path: uploaded4, duration: 3 },
+        ],
+        audioCues: [
+          {
+            path: uploaded3,
+            anchorClip: null,
+            playLength: 6,
+            volumeDb: -14,
+            loop: true,
+            ducking: { enabled: true, depthDb: -12, attackMs: 150, releaseMs: 500 },
+          },
+          { path: uploaded3, anchorClip: 2, startTime: 1, playLength: 1.5, volumeDb: -8, fadeOut: 0.5, loop: false },
+        ],
+      }),
+    });
+
+    if (!renderResSequence.ok) {
+      throw new Error(`create sequence job failed: ${renderResSequence.status} ${await renderResSequence.text()}`);
+    }
+
+    const { jobId: sequenceJobId } = await renderResSequence.json();
+    if (!sequenceJobId) {
+      throw new Error('no jobId returned for sequence test');
+    }
+
+    await pollJob({ baseUrl, jobId: sequenceJobId });
+
+    const sequenceOutPath = path.join(TEST_DIR, `output-sequence-${sequenceJobId}.mp4`);
+    const sequenceDl = await fetch(`${baseUrl}/api/download/${sequenceJobId}`);
+    if (!sequenceDl.ok) {
+      throw new Error(`sequence download failed: ${sequenceDl.status}`);
+    }
+    await fs.writeFile(sequenceOutPath, Buffer.from(await sequenceDl.arrayBuffer()));
+
+    const sequenceDuration = await probeDuration(sequenceOutPath);
+    if (!Number.isFinite(sequenceDuration) || Math.abs(sequenceDuration - 9) > 0.35) {
+      throw new Error(`unexpected sequence duration: ${sequenceDuration}s (expected ~9s)`);
+    }
+
+    const renderResOutputs = await fetch(`${baseUrl}/api/render`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: `pipeline-outputs-${Date.now()}`,
+        outputs: [
+          { quality: '720p', format: '16:9' },
+          { quality: '720p', format: '1:1', loudnessTarget: -16 },
+        ],
+        clips: [{ path: uploaded1, duration: 3 }],
+        bgm: { path: uploaded3, playLength: 3, volumeDb: -6, mode: 'FULL', loop: false },
+      }),
+    });
+
+    if (!renderResOutputs.ok) {
+      throw new Error(`create multi-output job failed: ${renderResOutputs.status} ${await renderResOutputs.text()}`);
+    }
+
+    const { jobId: outputsJobId } = await renderResOutputs.json();
+    if (!outputsJobId) {
+      throw new Error('no jobId returned for multi-output test');
+    }
+
+    const outputsJob = await pollJob({ baseUrl, jobId: outputsJobId });
+    const outputLoudness = Object.fromEntries(outputsJob.outputs.map((output) => [output.id, output.loudness]));
+    if (outputLoudness['720p-16x9']) {
+      throw new Error('output without a loudness target should not be normalized');
+    }
+    const normalized = outputLoudness['720p-1x1']?.output;
+    if (!normalized || Math.abs(normalized.integrated + 16) > 1 || normalized.truePeak > -0.5) {
+      throw new Error(`unexpected normalized loudness: ${JSON.stringify(outputLoudness['720p-1x1'])}`);
+    }
+
+    const expectedSizes = { '720p-16x9': { width: 1280, height: 720 }, '720p-1x1': { width: 720, height: 720 } };
+    const outputsOutPaths = [];
+    for (const [outputId, expected] of Object.entries(expectedSizes)) {
+      const outputPath = path.join(TEST_DIR, `output-${outputId}-${outputsJobId}.mp4`);
+      const outputDl = await fetch(`${baseUrl}/api/download/${outputsJobId}?output=${outputId}`);
+      if (!outputDl.ok) {
+        throw new Error(`multi-output download failed for ${outputId}: ${outputDl.status}`);
+      }
+      await fs.writeFile(outputPath, Buffer.from(await outputDl.arrayBuffer()));
+      const size = await probeSize(outputPath);
+      if (size.width !== expected.width || size.height !== expected.height) {
+        throw new Error(`unexpected ${outputId} size: ${size.width}x${size.height}`);
+      }
+      outputsOutPaths.push(outputPath);
+    }
+
+    const unknownOutputDl = await fetch(`${baseUrl}/api/download/${outputsJobId}?output=4k-9x16`);
+    if (unknownOutputDl.status !== 404) {
+      throw new Error(`expected 404 for an output the job did not render, got ${unknownOutputDl.status}`);
+    }
+
+    const rejectedBatchRes = await fetch(`${baseUrl}/api/batches`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        items: [
+          { itemId: 'ok', clips: [{ path: uploaded1, duration: 3 }] },
+          { itemId: 'missing', clips: [{ path: path.join(TEST_DIR, 'missing.mp4'), duration: 3 }] },
+        ],
+      }),
+    });
+    const partialBatch = await rejectedBatchRes.json();
+    if (
+      !rejectedBatchRes.ok ||
+      partialBatch.jobs?.length !== 1 ||
+      partialBatch.jobs[0].itemId !== 'ok' ||
+      partialBatch.errors?.[0]?.itemId !== 'missing'
+    ) {
+      throw new Error(`expected only the item with a missing clip to be rejected, got ${JSON.stringify(partialBatch)}`);
+    }
+    const rejectedAppendRes = await fetch(`${baseUrl}/api/batches/${partialBatch.batchId}/items`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        items: [{ itemId: 'late', clips: [{ path: path.join(TEST_DIR, 'missing.mp4'), duration: 3 }] }],
+      }),
+    });
+    if (rejectedAppendRes.status !== 400 || (await rejectedAppendRes.json()).errors?.[0]?.itemId !== 'late') {
+      throw new Error(`expected appending an invalid item to be rejected, got ${rejectedAppendRes.status}`);
+    }
+    await fetch(`${baseUrl}/api/batches/${partialBatch.batchId}/cancel`, { method: 'POST' });
+
+    const batchRes = await fetch(`${baseUrl}/api/batches`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: 'pipeline-batch',
+        items: [
+          { itemId: 'a', name: `pipeline-batch-a-${Date.now()}`, clips: [{ path: uploaded1, duration: 3 }] },
+          { itemId: 'b', name: `pipeline-batch-b-${Date.now()}`, clips: [{ path: uploaded2, duration: 3 }] },
+        ],
+      }),
+    });
+    if (!batchRes.ok) {
+      throw new Error(`create batch failed: ${batchRes.status} ${await batchRes.text()}`);
+    }
+    const { batchId, jobs: batchJobs } = await batchRes.json();
+    if (!batchId || batchJobs?.length !== 2 || batchJobs[0].itemId !== 'a') {
+      throw new Error('unexpected batch response');
+    }
+    for (const batchJob of batchJobs) {
+      await pollJob({ baseUrl, jobId: batchJob.jobId });
+    }
+    const batchStatus = await (await fetch(`${baseUrl}/api/batches/${batchId}`)).json();
+    if (!batchStatus.done || batchStatus.counts?.completed !== 2) {
+      throw new Error(`unexpected batch status: ${JSON.stringify(batchStatus.counts)}`);
+    }
+
     console.log(`OK: ${outPath}`);
     console.log(`OK: ${singleOutPath}`);
     console.log(`OK: ${videoAudioOutPath}`);
+    console.log(`OK: ${sequenceOutPath}`);
+    outputsOutPaths.forEach((outputPath) => console.log(`OK: ${outputPath}`));
+    console.log(`OK: batch ${batchId}`);
   } finally {
     server.kill('SIGTERM');
   }
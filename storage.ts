@@ -1,12 +1,55 @@
-import { BGMMode, LibraryAsset, ProjectConfig, RenderStatus, VideoAsset, BGMAsset } from './types';
-import { clampDb, gainToDb } from './audioLevels';
+import {
+  AudioCue,
+  LibraryAsset,
+  OutputProfile,
+  OverlayAsset,
+  ProjectConfig,
+  TextLayer,
+  RenderStatus,
+  VideoAsset,
+  CaptionAsset,
+  CaptionStyle,
+  DuckingSettings,
+  FailureClass,
+  TransitionSettings,
+  TransitionType,
+} from './types';
+import { MAX_FADE_SECONDS, clampDb, gainToDb } from './audioLevels';
+import { DEFAULT_TRANSITION, MAX_TRANSITION_SECONDS } from './timeline';
+import { DEFAULT_DUCKING, MAX_DUCK_ATTACK_MS, MAX_DUCK_RELEASE_MS, MIN_DUCK_DEPTH_DB } from './ducking';
+import { LEGACY_BGM_ANCHORS, MAX_AUDIO_CUES } from './audioCues';
+import {
+  CAPTION_FONTS,
+  DEFAULT_CAPTION_STYLE,
+  MAX_CAPTION_FONT_SIZE,
+  MIN_CAPTION_FONT_SIZE,
+} from './captions';
+import {
+  DEFAULT_OVERLAY_SETTINGS,
+  MAX_OVERLAY_MARGIN,
+  MAX_OVERLAY_SCALE,
+  MIN_OVERLAY_SCALE,
+  OVERLAY_CORNERS,
+} from './overlay';
+import { MAX_TEXT_LAYERS, TEXT_LAYER_PRESETS } from './textLayers';
+import {
+  MAX_LOUDNESS_TARGET,
+  MIN_LOUDNESS_TARGET,
+  dedupeOutputProfiles,
+  readRenderOutputs,
+} from './outputProfiles';
 import { loadMediaUrl } from './mediaStore';
 
 const STORAGE_KEY = 'heygen_cms_state';
-const STORAGE_VERSION = 1;
+const STORAGE_VERSION = 3;
 const VALID_TABS = ['workstation', 'queue', 'library', 'config'] as const;
 const VALID_STATUSES: RenderStatus[] = ['PENDING', 'RENDERING', 'COMPLETED', 'FAILED', 'CANCELLED'];
+const VALID_FAILURE_CLASSES: FailureClass[] = ['missing-input', 'decode', 'timeout', 'disk', 'cancelled', 'unknown'];
 const VALID_QUALITIES = ['720p', '1080p', '4k'] as const;
+const VALID_FORMATS = ['16:9', '9:16', '1:1'] as const;
+const VALID_FITS = ['crop', 'fit', 'blur'] as const;
+const VALID_CAPTION_POSITIONS = ['top', 'middle', 'bottom'] as const;
+const VALID_LIBRARY_KINDS = ['audio', 'image'] as const;
 
 type ActiveTab = (typeof VALID_TABS)[number];
 
@@ -36,6 +79,22 @@ const asNumber = (value: unknown, fallback = 0): number =>
 const asBoolean = (value: unknown, fallback = false): boolean =>
   typeof value === 'boolean' ? value : fallback;
 
+const sanitizeCaptionAsset = (value: unknown): CaptionAsset | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const id = asString(value.id);
+  const name = asString(value.name);
+  const url = asString(value.url);
+
+  if (!id || !name) {
+    return null;
+  }
+
+  return { id, name, url };
+};
+
 const sanitizeVideoAsset = (value: unknown): VideoAsset | null => {
   if (!isRecord(value)) {
     return null;
@@ -45,19 +104,45 @@ const sanitizeVideoAsset = (value: unknown): VideoAsset | null => {
   const name = asString(value.name);
   const url = asString(value.url);
   const duration = asNumber(value.duration, 0);
+  const captions = sanitizeCaptionAsset(value.captions);
+  const volumeDb = clampDb(asNumber(value.volumeDb, 0));
+  const muted = asBoolean(value.muted, false);
 
   if (!id || !name) {
     return null;
   }
 
-  return { id, name, url, duration };
+  return { id, name, url, duration, captions, volumeDb, muted };
 };
 
-const sanitizeBgmAsset = (value: unknown): BGMAsset | null => {
+const sanitizeClipList = (value: Record<string, unknown>): VideoAsset[] => {
+  if (Array.isArray(value.clips)) {
+    return value.clips.map((clip) => sanitizeVideoAsset(clip)).filter(Boolean) as VideoAsset[];
+  }
+
+  // Version 1 state stored a fixed intro/body pair instead of an ordered clip list.
+  return [sanitizeVideoAsset(value.video1), sanitizeVideoAsset(value.video2)].filter(Boolean) as VideoAsset[];
+};
+
+const sanitizeDucking = (value: unknown): DuckingSettings => {
+  if (!isRecord(value)) {
+    return { ...DEFAULT_DUCKING };
+  }
+
+  return {
+    enabled: asBoolean(value.enabled, DEFAULT_DUCKING.enabled),
+    depthDb: Math.min(0, Math.max(MIN_DUCK_DEPTH_DB, asNumber(value.depthDb, DEFAULT_DUCKING.depthDb))),
+    attackMs: Math.min(MAX_DUCK_ATTACK_MS, Math.max(0, asNumber(value.attackMs, DEFAULT_DUCKING.attackMs))),
+    releaseMs: Math.min(MAX_DUCK_RELEASE_MS, Math.max(0, asNumber(value.releaseMs, DEFAULT_DUCKING.releaseMs))),
+  };
+};
+
+const sanitizeAudioCue = (value: unknown): AudioCue | null => {
   if (!isRecord(value)) {
     return null;
   }
 
+  const cueId = asString(value.cueId) || Math.random().toString(36).substr(2, 9);
   const id = asString(value.id);
   const name = asString(value.name);
   const url = asString(value.url);
@@ -73,15 +158,121 @@ const sanitizeBgmAsset = (value: unknown): BGMAsset | null => {
     }
   }
   const normalizedVolumeDb = clampDb(volumeDb ?? 0);
-  const modeValue = asString(value.mode);
-  const mode = Object.values(BGMMode).includes(modeValue as BGMMode) ? (modeValue as BGMMode) : BGMMode.FULL;
+  const fadeIn = Math.min(MAX_FADE_SECONDS, Math.max(0, asNumber(value.fadeIn, 0)));
+  const fadeOut = Math.min(MAX_FADE_SECONDS, Math.max(0, asNumber(value.fadeOut, 0)));
+  const anchorValue = asNumber(value.anchorClip, Number.NaN);
+  const anchorClip = Number.isFinite(anchorValue)
+    ? Math.max(0, Math.round(anchorValue))
+    : value.anchorClip === null
+      ? null
+      : (LEGACY_BGM_ANCHORS[asString(value.mode)] ?? null);
   const loop = asBoolean(value.loop, false);
+  const ducking = sanitizeDucking(value.ducking);
 
   if (!id || !name) {
     return null;
   }
 
-  return { id, name, url, duration, startTime, playLength, volumeDb: normalizedVolumeDb, mode, loop };
+  return {
+    cueId,
+    id,
+    name,
+    url,
+    duration,
+    anchorClip,
+    startTime,
+    playLength,
+    volumeDb: normalizedVolumeDb,
+    fadeIn,
+    fadeOut,
+    loop,
+    ducking,
+  };
+};
+
+// Items saved before audio cues carry a single `bgm` track.
+const sanitizeAudioCues = (value: Record<string, unknown>): AudioCue[] => {
+  const cues = Array.isArray(value.audioCues) ? value.audioCues : [value.bgm];
+  return (cues.map((cue) => sanitizeAudioCue(cue)).filter(Boolean) as AudioCue[]).slice(0, MAX_AUDIO_CUES);
+};
+
+const sanitizeTransition = (value: unknown): TransitionSettings => {
+  if (!isRecord(value)) {
+    return { ...DEFAULT_TRANSITION };
+  }
+
+  const typeValue = asString(value.type);
+  const type = Object.values(TransitionType).includes(typeValue as TransitionType)
+    ? (typeValue as TransitionType)
+    : TransitionType.NONE;
+  const duration = Math.min(MAX_TRANSITION_SECONDS, Math.max(0, asNumber(value.duration, DEFAULT_TRANSITION.duration)));
+
+  return { type, duration };
+};
+
+const sanitizeCaptionStyle = (value: unknown): CaptionStyle => {
+  if (!isRecord(value)) {
+    return { ...DEFAULT_CAPTION_STYLE };
+  }
+
+  const fontFamilyValue = asString(value.fontFamily);
+  const fontFamily = CAPTION_FONTS.includes(fontFamilyValue as (typeof CAPTION_FONTS)[number])
+    ? fontFamilyValue
+    : DEFAULT_CAPTION_STYLE.fontFamily;
+  const fontSize = Math.min(
+    MAX_CAPTION_FONT_SIZE,
+    Math.max(MIN_CAPTION_FONT_SIZE, asNumber(value.fontSize, DEFAULT_CAPTION_STYLE.fontSize))
+  );
+  const position = VALID_CAPTION_POSITIONS.includes(value.position as CaptionStyle['position'])
+    ? (value.position as CaptionStyle['position'])
+    : DEFAULT_CAPTION_STYLE.position;
+  const textColorValue = asString(value.textColor);
+  const textColor = /^#[0-9a-f]{6}$/i.test(textColorValue) ? textColorValue : DEFAULT_CAPTION_STYLE.textColor;
+  const background = asBoolean(value.background, DEFAULT_CAPTION_STYLE.background);
+  const backgroundOpacity = Math.min(
+    1,
+    Math.max(0, asNumber(value.backgroundOpacity, DEFAULT_CAPTION_STYLE.backgroundOpacity))
+  );
+
+  return { fontFamily, fontSize, position, textColor, background, backgroundOpacity };
+};
+
+const sanitizeTextLayer = (value: unknown): TextLayer | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const id = asString(value.id);
+  if (!id) {
+    return null;
+  }
+
+  const presetValue = asString(value.preset);
+  const preset = TEXT_LAYER_PRESETS.some((item) => item.value === presetValue)
+    ? (presetValue as TextLayer['preset'])
+    : 'lower-third';
+  const anchorClip = Math.max(0, Math.round(asNumber(value.anchorClip, 0)));
+  const startTime = Math.max(0, asNumber(value.startTime, 0));
+  const endTime = Math.max(startTime, asNumber(value.endTime, startTime + 5));
+
+  return {
+    id,
+    text: asString(value.text),
+    subtitle: asString(value.subtitle),
+    preset,
+    anchorClip,
+    startTime,
+    endTime,
+  };
+};
+
+const sanitizeTextFields = (value: unknown): Record<string, string> => {
+  if (!isRecord(value)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
 };
 
 const sanitizeLibraryAsset = (value: unknown): LibraryAsset | null => {
@@ -94,50 +285,132 @@ const sanitizeLibraryAsset = (value: unknown): LibraryAsset | null => {
   const url = asString(value.url);
   const duration = asNumber(value.duration, 0);
   const addedAt = asNumber(value.addedAt, Date.now());
+  // Libraries saved before image overlays only ever held audio tracks.
+  const kind = VALID_LIBRARY_KINDS.includes(value.kind as LibraryAsset['kind'])
+    ? (value.kind as LibraryAsset['kind'])
+    : 'audio';
 
   if (!id || !name) {
     return null;
   }
 
-  return { id, name, url, duration, addedAt };
+  return { id, name, url, duration, addedAt, kind };
 };
 
-const sanitizeProjectConfig = (value: unknown): ProjectConfig | null => {
+const sanitizeOverlayAsset = (value: unknown): OverlayAsset | null => {
   if (!isRecord(value)) {
     return null;
   }
 
   const id = asString(value.id);
   const name = asString(value.name);
+  const url = asString(value.url);
   if (!id || !name) {
     return null;
   }
 
-  const exportQuality = VALID_QUALITIES.includes(value.exportQuality as (typeof VALID_QUALITIES)[number])
-    ? (value.exportQuality as ProjectConfig['exportQuality'])
+  const corner = OVERLAY_CORNERS.includes(value.corner as OverlayAsset['corner'])
+    ? (value.corner as OverlayAsset['corner'])
+    : DEFAULT_OVERLAY_SETTINGS.corner;
+  const margin = Math.min(MAX_OVERLAY_MARGIN, Math.max(0, asNumber(value.margin, DEFAULT_OVERLAY_SETTINGS.margin)));
+  const scale = Math.min(
+    MAX_OVERLAY_SCALE,
+    Math.max(MIN_OVERLAY_SCALE, asNumber(value.scale, DEFAULT_OVERLAY_SETTINGS.scale))
+  );
+  const opacity = Math.min(1, Math.max(0, asNumber(value.opacity, DEFAULT_OVERLAY_SETTINGS.opacity)));
+  const startTime = Math.max(0, asNumber(value.startTime, 0));
+  const endTimeRaw = asNumber(value.endTime, Number.NaN);
+  const endTime = Number.isFinite(endTimeRaw) && endTimeRaw > startTime ? endTimeRaw : null;
+
+  return { id, name, url, corner, margin, scale, opacity, startTime, endTime };
+};
+
+const sanitizeOutputProfile = (value: unknown): OutputProfile => {
+  const quality = VALID_QUALITIES.includes((value as OutputProfile)?.quality as (typeof VALID_QUALITIES)[number])
+    ? (value as OutputProfile).quality
     : '1080p';
+  const format = VALID_FORMATS.includes((value as OutputProfile)?.format as (typeof VALID_FORMATS)[number])
+    ? (value as OutputProfile).format
+    : '16:9';
+  const loudnessTarget = asNumber((value as OutputProfile)?.loudnessTarget, Number.NaN);
+  return Number.isFinite(loudnessTarget)
+    ? {
+        quality,
+        format,
+        loudnessTarget: Math.min(MAX_LOUDNESS_TARGET, Math.max(MIN_LOUDNESS_TARGET, loudnessTarget)),
+      }
+    : { quality, format };
+};
+
+// Items saved before multi-output rendering carry a single exportQuality/outputFormat pair.
+const sanitizeOutputProfiles = (value: Record<string, unknown>): OutputProfile[] => {
+  const profiles =
+    Array.isArray(value.outputs) && value.outputs.length > 0
+      ? value.outputs.map((output) => sanitizeOutputProfile(output))
+      : [sanitizeOutputProfile({ quality: value.exportQuality, format: value.outputFormat })];
+  return dedupeOutputProfiles(profiles);
+};
+
+const sanitizeProjectConfig = (value: unknown): ProjectConfig | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const id = asString(value.id);
+  const name = asString(value.name);
+  if (!id || !name) {
+    return null;
+  }
+
+  const outputs = sanitizeOutputProfiles(value);
+  const frameFit = VALID_FITS.includes(value.frameFit as (typeof VALID_FITS)[number])
+    ? (value.frameFit as ProjectConfig['frameFit'])
+    : 'crop';
   const status = VALID_STATUSES.includes(value.status as RenderStatus)
     ? (value.status as RenderStatus)
     : 'PENDING';
   const progress = Math.min(100, Math.max(0, asNumber(value.progress, 0)));
   const outputUrl = asString(value.outputUrl);
+  const renderOutputs = readRenderOutputs(value.renderOutputs);
   const errorMessage = asString(value.errorMessage);
   const jobId = asString(value.jobId);
-  const video1 = sanitizeVideoAsset(value.video1);
-  const video2 = sanitizeVideoAsset(value.video2);
-  const bgm = sanitizeBgmAsset(value.bgm);
+  const failureClass = VALID_FAILURE_CLASSES.includes(value.failureClass as FailureClass)
+    ? (value.failureClass as FailureClass)
+    : undefined;
+  const attemptCount = asNumber(value.attemptCount, 0);
+  const priority = Math.round(asNumber(value.priority, 0));
+  const clips = sanitizeClipList(value);
+  const audioCues = sanitizeAudioCues(value);
+  const transition = sanitizeTransition(value.transition);
+  const captionStyle = sanitizeCaptionStyle(value.captionStyle);
+  const overlay = sanitizeOverlayAsset(value.overlay);
+  const textLayers = (Array.isArray(value.textLayers) ? value.textLayers : [])
+    .map((layer) => sanitizeTextLayer(layer))
+    .filter(Boolean)
+    .slice(0, MAX_TEXT_LAYERS) as TextLayer[];
+  const textFields = sanitizeTextFields(value.textFields);
 
   return {
     id,
     name,
-    video1,
-    video2,
-    bgm,
-    exportQuality,
-    status,
+    clips,
+    audioCues,
+    transition,
+    captionStyle,
+    overlay,
+    textLayers,
+    textFields,
+    outputs,
+    frameFit,
+    priority: priority !== 0 ? priority : undefined,
+    // An item still uploading when the tab closed never reached the server; it can simply be queued again.
+    status: status === 'RENDERING' && !jobId ? 'PENDING' : status,
     progress,
     outputUrl: outputUrl || undefined,
+    renderOutputs: renderOutputs.length > 0 ? renderOutputs : undefined,
     errorMessage: errorMessage || undefined,
+    failureClass,
+    attemptCount: attemptCount > 0 ? attemptCount : undefined,
     jobId: jobId || undefined,
   };
 };
@@ -210,9 +483,16 @@ export const hydratePersistedState = async (state: PersistedState): Promise<Pers
   const queue = await Promise.all(
     state.queue.map(async (item) => ({
       ...item,
-      video1: await hydrateAsset(item.video1),
-      video2: await hydrateAsset(item.video2),
-      bgm: await hydrateAsset(item.bgm),
+      clips: (
+        await Promise.all(
+          item.clips.map(async (clip) => {
+            const hydrated = await hydrateAsset(clip);
+            return hydrated ? { ...hydrated, captions: await hydrateAsset(clip.captions ?? null) } : null;
+          })
+        )
+      ).filter(Boolean) as VideoAsset[],
+      audioCues: (await Promise.all(item.audioCues.map((cue) => hydrateAsset(cue)))).filter(Boolean) as AudioCue[],
+      overlay: await hydrateAsset(item.overlay),
     }))
   );
 
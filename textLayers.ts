@@ -0,0 +1,106 @@
+import type { CSSProperties } from 'react';
+import { TextLayer, TextLayerPreset } from './types';
+
+export const MAX_TEXT_LAYERS = 4;
+
+export const TEXT_LAYER_PRESETS: { value: TextLayerPreset; label: string }[] = [
+  { value: 'lower-third', label: 'Lower Third' },
+  { value: 'title', label: 'Title' },
+  { value: 'tag', label: 'Corner Tag' },
+];
+
+// `clip` is always filled in from the item's first clip name when a batch is queued.
+export const BUILT_IN_TEXT_FIELDS = ['clip'];
+
+export const createTextLayer = (anchorClip = 1): TextLayer => ({
+  id: Math.random().toString(36).substr(2, 9),
+  text: '{{name}}',
+  subtitle: '{{role}}',
+  preset: 'lower-third',
+  anchorClip,
+  startTime: 2,
+  endTime: 7,
+});
+
+const FIELD_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export const getTemplateFields = (layers: TextLayer[]) => {
+  const fields = new Set<string>();
+  for (const layer of layers) {
+    for (const match of `${layer.text} ${layer.subtitle}`.matchAll(FIELD_PATTERN)) {
+      fields.add(match[1]);
+    }
+  }
+  return Array.from(fields);
+};
+
+// Unknown fields render empty rather than leaking `{{braces}}` into the video.
+export const fillTemplate = (template: string, fields: Record<string, string>) =>
+  template.replace(FIELD_PATTERN, (_, key: string) => fields[key] ?? '');
+
+interface TextLayerStyles {
+  container: CSSProperties;
+  box: CSSProperties;
+  title: CSSProperties;
+  subtitle: CSSProperties;
+}
+
+// `unit` maps a size authored against a 1080px short edge to a CSS length for the target surface.
+export const getTextLayerStyles = (
+  preset: TextLayerPreset,
+  unit: (size: number) => string
+): TextLayerStyles => {
+  const base: TextLayerStyles = {
+    container: { position: 'absolute', inset: 0, display: 'flex', pointerEvents: 'none' },
+    box: { fontFamily: 'Inter, Arial, sans-serif', color: '#ffffff' },
+    title: { fontWeight: 800, lineHeight: 1.1, whiteSpace: 'nowrap' },
+    subtitle: { fontWeight: 600, lineHeight: 1.2, whiteSpace: 'nowrap', opacity: 0.85 },
+  };
+
+  if (preset === 'title') {
+    return {
+      container: { ...base.container, alignItems: 'center', justifyContent: 'center' },
+      box: { ...base.box, textAlign: 'center', textShadow: '0 4px 24px rgba(0, 0, 0, 0.6)' },
+      title: { ...base.title, fontSize: unit(96) },
+      subtitle: { ...base.subtitle, fontSize: unit(40), marginTop: unit(16) },
+    };
+  }
+
+  if (preset === 'tag') {
+    return {
+      container: { ...base.container, alignItems: 'flex-start', justifyContent: 'flex-start', padding: unit(48) },
+      box: {
+        ...base.box,
+        backgroundColor: 'rgba(15, 23, 42, 0.75)',
+        borderRadius: unit(999),
+        padding: `${unit(12)} ${unit(28)}`,
+        display: 'flex',
+        alignItems: 'baseline',
+        gap: unit(14),
+      },
+      title: { ...base.title, fontSize: unit(32) },
+      subtitle: { ...base.subtitle, fontSize: unit(26) },
+    };
+  }
+
+  return {
+    container: {
+      ...base.container,
+      alignItems: 'flex-end',
+      justifyContent: 'flex-start',
+      padding: `0 ${unit(72)} ${unit(96)}`,
+    },
+    box: {
+      ...base.box,
+      backgroundColor: 'rgba(37, 99, 235, 0.92)',
+      borderLeft: `${unit(10)} solid #ffffff`,
+      padding: `${unit(18)} ${unit(36)}`,
+    },
+    title: { ...base.title, fontSize: unit(52) },
+    subtitle: { ...base.subtitle, fontSize: unit(30), marginTop: unit(6) },
+  };
+};
+
+// Entrance motion per preset: lower thirds and tags slide in from the side, titles rise slightly.
+export const getTextLayerOffset = (preset: TextLayerPreset, remaining: number, unit: (size: number) => string) =>
+  preset === 'title' ? `translateY(${unit(remaining * 40)})` : `translateX(${unit(remaining * -60)})`;
@@ -0,0 +1,56 @@
+import { TransitionSettings, TransitionType } from './types';
+
+export const TIMELINE_FPS = 24;
+export const MAX_TRANSITION_SECONDS = 3;
+
+export const DEFAULT_TRANSITION: TransitionSettings = {
+  type: TransitionType.NONE,
+  duration: 0.5,
+};
+
+export interface ClipTimeline {
+  frames: number[];
+  starts: number[];
+  // overlaps[i] is the number of frames clip i shares with clip i + 1.
+  overlaps: number[];
+  totalFrames: number;
+}
+
+export const getTransitionFrames = (transition: TransitionSettings | null | undefined, fps: number): number => {
+  if (!transition || transition.type === TransitionType.NONE) {
+    return 0;
+  }
+  const seconds = Math.min(MAX_TRANSITION_SECONDS, Math.max(0, Number(transition.duration) || 0));
+  return Math.round(seconds * fps);
+};
+
+export const toClipFrames = (durations: number[], fps: number): number[] =>
+  durations.map((duration) => Math.max(1, Math.round((Number(duration) || 0) * fps)));
+
+export const buildClipTimeline = (clipFrames: number[], transitionFrames: number): ClipTimeline => {
+  const overlaps = clipFrames.slice(0, -1).map((frames, index) => {
+    // Never let a transition eat more than half of either neighbouring clip.
+    const limit = Math.floor(Math.min(frames, clipFrames[index + 1]) / 2);
+    return Math.max(0, Math.min(transitionFrames, limit));
+  });
+
+  const starts: number[] = [];
+  let cursor = 0;
+  clipFrames.forEach((frames, index) => {
+    starts.push(cursor);
+    cursor += frames - (overlaps[index] ?? 0);
+  });
+
+  return {
+    frames: clipFrames,
+    starts,
+    overlaps,
+    totalFrames: Math.max(0, cursor),
+  };
+};
+
+export const buildClipTimelineFromSeconds = (
+  durations: number[],
+  transition: TransitionSettings | null | undefined,
+  fps = TIMELINE_FPS
+): ClipTimeline => buildClipTimeline(toClipFrames(durations, fps), getTransitionFrames(transition, fps));
@@ -1,50 +1,169 @@
 
-export enum BGMMode {
-  FULL = 'FULL',
-  VIDEO1_ONLY = 'VIDEO1_ONLY',
-  VIDEO2_ONLY = 'VIDEO2_ONLY'
+export enum TransitionType {
+  NONE = 'NONE',
+  CROSSFADE = 'CROSSFADE',
+  DIP_TO_BLACK = 'DIP_TO_BLACK',
+  WIPE = 'WIPE'
 }
 
+export type ExportQuality = '720p' | '1080p' | '4k';
+
+export type OutputFormat = '16:9' | '9:16' | '1:1';
+
+export type FrameFit = 'crop' | 'fit' | 'blur';
+
 export type RenderStatus = 'PENDING' | 'RENDERING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
 
+export interface CaptionAsset {
+  id: string;
+  name: string;
+  url: string;
+}
+
 export interface VideoAsset {
   id: string;
   name: string;
   url: string;
   duration: number;
+  captions?: CaptionAsset | null;
+  // The clip's own audio (the avatar's voice), applied on top of any cue ducking.
+  volumeDb: number;
+  muted: boolean;
+}
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
 }
 
-export interface BGMAsset {
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+
+export interface CaptionStyle {
+  fontFamily: string;
+  fontSize: number;
+  position: CaptionPosition;
+  textColor: string;
+  background: boolean;
+  backgroundOpacity: number;
+}
+
+// One track on the composition's audio timeline. `id` is the media asset, so several cues can share a file.
+export interface AudioCue {
+  cueId: string;
   id: string;
   name: string;
   url: string;
   duration: number;
+  // The clip that `startTime` and `playLength` are measured against; null spans the whole sequence.
+  anchorClip: number | null;
   startTime: number;
   playLength: number;
   volumeDb: number;
-  mode: BGMMode;
+  // Seconds, measured from the start and end of the play window.
+  fadeIn: number;
+  fadeOut: number;
   loop: boolean;
+  ducking: DuckingSettings;
 }
 
+// Lowers a cue while the clips' own audio has speech in it.
+export interface DuckingSettings {
+  enabled: boolean;
+  depthDb: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+export interface TransitionSettings {
+  type: TransitionType;
+  duration: number;
+}
+
+export type TextLayerPreset = 'lower-third' | 'title' | 'tag';
+
+export interface TextLayer {
+  id: string;
+  text: string;
+  subtitle: string;
+  preset: TextLayerPreset;
+  anchorClip: number;
+  startTime: number;
+  endTime: number;
+}
+
+export type LibraryAssetKind = 'audio' | 'image';
+
 export interface LibraryAsset {
   id: string;
   name: string;
   url: string;
   duration: number;
   addedAt: number;
+  kind: LibraryAssetKind;
 }
 
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface OverlayAsset {
+  id: string;
+  name: string;
+  url: string;
+  corner: OverlayCorner;
+  margin: number;
+  scale: number;
+  opacity: number;
+  startTime: number;
+  endTime: number | null;
+}
+
+export interface OutputProfile {
+  quality: ExportQuality;
+  format: OutputFormat;
+  // Integrated loudness (LUFS) the final mix is normalized to; unset leaves the mix as rendered.
+  loudnessTarget?: number | null;
+}
+
+export interface LoudnessMeasurement {
+  integrated: number;
+  truePeak: number;
+}
+
+export interface RenderOutput {
+  id: string;
+  label: string;
+  url: string;
+  loudness?: LoudnessMeasurement;
+}
+
+export type FailureClass = 'missing-input' | 'decode' | 'timeout' | 'disk' | 'cancelled' | 'unknown';
+
 export interface ProjectConfig {
   id: string;
   name: string;
-  video1: VideoAsset | null;
-  video2: VideoAsset | null;
-  bgm: BGMAsset | null;
-  exportQuality: '720p' | '1080p' | '4k';
+  clips: VideoAsset[];
+  audioCues: AudioCue[];
+  transition: TransitionSettings;
+  captionStyle: CaptionStyle;
+  overlay: OverlayAsset | null;
+  textLayers: TextLayer[];
+  textFields: Record<string, string>;
+  outputs: OutputProfile[];
+  frameFit: FrameFit;
+  priority?: number;
   status: RenderStatus;
   progress: number;
+  renderStage?: string;
   outputUrl?: string;
+  renderOutputs?: RenderOutput[];
   errorMessage?: string;
+  failureClass?: FailureClass;
+  attemptCount?: number;
   jobId?: string;
 }
 